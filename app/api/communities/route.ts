@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import { addCommunityPin, isCommunityPlatform, listCommunityPins, loadCommunityPins, removeCommunityPin } from '../../../lib/community-pins';
+import { json } from '../../../lib/json-response';
+
+export async function GET() {
+  await loadCommunityPins();
+  return json({ pins: listCommunityPins() });
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const platform: unknown = body.platform;
+  const name: unknown = body.name;
+
+  if (!isCommunityPlatform(platform)) {
+    return json({ error: 'platform must be "reddit" or "lobsters".' }, 400);
+  }
+  if (typeof name !== 'string' || !name.trim()) {
+    return json({ error: 'Community name is required.' }, 400);
+  }
+
+  try {
+    const pin = await addCommunityPin(platform, name);
+    return json({ pin, pins: listCommunityPins() }, 201);
+  } catch (error) {
+    return json({ error: error instanceof Error ? error.message : 'Unable to pin community.' }, 422);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get('id');
+  if (!id) {
+    return json({ error: 'id is required.' }, 400);
+  }
+  if (!(await removeCommunityPin(id))) {
+    return json({ error: 'Pin not found.' }, 404);
+  }
+  return json({ pins: listCommunityPins() });
+}
@@ -2,36 +2,77 @@ import { NextRequest } from 'next/server';
 import OpenAI from 'openai';
 import type {
   AgentState,
+  BudgetUsage,
+  CandidatePoolItem,
   CandidateProfile,
   DeepenDigest,
   FeedItem,
+  FeedRun,
+  FeedSource,
+  HarvestSnippet,
+  ItemFeedback,
+  ItemMetadata,
   LogLevel,
+  PlanMode,
   ProfileCardData,
+  ProfileLens,
+  QuerySlot,
+  SourceQueryPlan,
 } from '../../../types';
+import { budgetLabels, chargeLlmCall, createRunBudget, currentBudget, recordLlmUsage, withRunBudget } from '../../../lib/budget';
+import { listConnectors, mergeCandidates, prepareConnectors } from '../../../lib/connectors';
+import type { CandidateContent, SourceConnector } from '../../../lib/connectors';
+import { scoreRelevance } from '../../../lib/embeddings';
+import { env } from '../../../lib/env';
+import { parseFeed } from '../../../lib/feed-parser';
+import { applyFeedback, createFeedbackScorer, feedbackExamples, hiddenUrls } from '../../../lib/feedback';
+import type { FeedbackExamples } from '../../../lib/feedback';
+import { githubHeaders } from '../../../lib/github';
+import { fetchJson, fetchText } from '../../../lib/http';
+import { HUGGINGFACE_BASE_URL, huggingfaceHeaders, huggingfaceUsername } from '../../../lib/huggingface';
+import { json } from '../../../lib/json-response';
+import { DEFAULT_PROFILE_LENS, isProfileLens, profileLenses } from '../../../lib/lenses';
+import { explainLocalRanking, rankLocally } from '../../../lib/local-ranker';
+import { completeJson, hasLlm, openaiClient } from '../../../lib/llm';
+import {
+  augmentationSchema,
+  clusterSchema,
+  deepenSchema,
+  mergeSchema,
+  profileCardSchema,
+  queryPlanSchema,
+  queryRewriteSchema,
+  rankingSchema,
+} from '../../../lib/llm/schemas';
+import {
+  clusterPrompt,
+  deepenPrompt,
+  mergePrompt,
+  orchestratorPrompt,
+  profileCardPrompt,
+  profileSignalsPrompt,
+  queryPlanPrompt,
+  queryRewritePrompt,
+  rankPrompt,
+  recordPromptVersion,
+  recordedPromptVersions,
+  renderPrompt,
+  withPromptLog,
+} from '../../../lib/prompts';
+import { extractReadableContent } from '../../../lib/readable';
+import { getSharedSlot, getSourceDescriptor, slotQueryLimit, sourceBudget } from '../../../lib/sources';
+import type { PlanSlotDescriptor } from '../../../lib/sources';
+import { getStore } from '../../../lib/storage';
+import { sanitizeWhitespace, truncate, uniqueStrings } from '../../../lib/text';
 
 type CandidateSource = CandidateProfile['source'];
-
-interface HarvestSnippet {
-  source: string;
-  title: string;
-  snippet: string;
-  url: string;
-}
+type StageLog = (message: string, level?: LogLevel) => void;
 
 interface IdentityResult {
   core: string;
   identities: string[];
 }
 
-interface CandidateContent {
-  id: string;
-  source: FeedItem['source'];
-  title: string;
-  snippet: string;
-  url: string;
-  date: string;
-}
-
 interface SearchResult {
   title: string;
   url: string;
@@ -45,91 +86,42 @@ interface CandidateCluster {
   support_urls: string[];
 }
 
-interface SourceQueryPlan {
-  arxiv: string[];
-  hn: string[];
-  news: string[];
-  x: string[];
-}
-
 interface PlanResult {
   plan: SourceQueryPlan;
-  mode: 'llm' | 'fallback';
+  mode: PlanMode;
 }
 
-interface FeedCacheEntry {
-  item: FeedItem;
-  profile: ProfileCardData;
-  name: string;
-  expires: number;
-}
-
-const HTTP_TIMEOUT_MS = Number(process.env.HTTP_TIMEOUT_MS ?? 8000);
 const NEWS_WINDOW_MONTHS = 12;
 const MAX_DOC_SNIPPETS = 20;
 const CANDIDATE_TARGET = 30;
-const FEED_CACHE_TTL = 15 * 60 * 1000;
-
-const feedCache = new Map<string, FeedCacheEntry>();
-
-const env = {
-  googleSearchKey: process.env.GOOGLE_SEARCH_API_KEY ?? '',
-  googleSearchCx: process.env.GOOGLE_SEARCH_CX ?? '',
-  openaiApiKey: process.env.OPENAI_API_KEY ?? '',
-  openaiModelProfile: process.env.OPENAI_PROFILE_MODEL ?? 'gpt-4o-mini',
-  openaiModelRank: process.env.OPENAI_RANK_MODEL ?? 'gpt-4o-mini',
-  openaiModelDeepen: process.env.OPENAI_DEEPEN_MODEL ?? 'gpt-4o-mini',
-  githubToken: process.env.GITHUB_TOKEN ?? '',
+// Boosts on top of the local ranker's score (relevance counts up to 6): log-scaled engagement,
+// liked/disliked similarity in [-1, 1], and embedding similarity to the profile.
+const ENGAGEMENT_WEIGHT = 0.25;
+const FEEDBACK_WEIGHT = 4;
+const SIMILARITY_WEIGHT = 4;
+const MAX_EDITED_KEYWORDS = 20;
+const MAX_REFINEMENT_ROUNDS = 2;
+// Per-provider item cap for one orchestrator search.
+const MAX_SEARCH_COUNT = 10;
+
+const planModeLabels: Record<PlanMode, string> = {
+  llm: 'LLM query plan',
+  fallback: 'keyword fallback plan',
+  edited: 'edited query plan',
+  agent: 'orchestrator searches',
 };
 
-const openaiClient = env.openaiApiKey ? new OpenAI({ apiKey: env.openaiApiKey }) : null;
-
 const sourceBadges: Record<CandidateSource, string> = {
   github: 'GitHub',
   site: 'Website',
 };
 
-function sanitizeWhitespace(value: string) {
-  return value.replace(/\s+/g, ' ').trim();
-}
-
-function decodeEntities(value: string) {
-  return value
-    .replace(/&nbsp;/g, ' ')
-    .replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'");
-}
-
-function stripHtml(html: string) {
-  const withoutScripts = html
-    .replace(/<script[\s\S]*?<\/script>/gi, ' ')
-    .replace(/<style[\s\S]*?<\/style>/gi, ' ')
-    .replace(/<!--[\s\S]*?-->/g, ' ');
-  const withoutTags = withoutScripts.replace(/<\/?[^>]+>/g, ' ');
-  return sanitizeWhitespace(decodeEntities(withoutTags));
-}
-
-function extractTagContent(xml: string, tag: string) {
-  const regex = new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`, 'i');
-  const match = regex.exec(xml);
-  if (!match) return '';
-  return decodeEntities(stripHtml(match[1]));
-}
-
-function extractLinkHref(xml: string) {
-  const linkMatch =
-    /<link[^>]*href=["']([^"']+)["'][^>]*rel=["']alternate["'][^>]*>/i.exec(xml) ||
-    /<link[^>]*href=["']([^"']+)["'][^>]*>/i.exec(xml);
-  return linkMatch ? linkMatch[1] : '';
-}
-
-function truncate(value: string, max = 400) {
-  const clean = sanitizeWhitespace(value);
-  if (clean.length <= max) return clean;
-  return `${clean.slice(0, max - 1)}…`;
+/** Orchestrator turns bypass the provider chain (they need tool calling) but still count against the run's budget. */
+async function createResponse(client: OpenAI, params: OpenAI.Responses.ResponseCreateParamsNonStreaming) {
+  const timeoutMs = chargeLlmCall();
+  const response = await client.responses.create(params, timeoutMs === undefined ? undefined : { timeout: timeoutMs });
+  recordLlmUsage(response.usage?.input_tokens ?? 0, response.usage?.output_tokens ?? 0);
+  return response;
 }
 
 function firstNameFrom(name: string) {
@@ -145,57 +137,6 @@ function sendEvent(controller: ReadableStreamDefaultController, type: string, da
   controller.enqueue(new TextEncoder().encode(payload));
 }
 
-async function fetchWithTimeout(url: string, init: RequestInit & { timeoutMs?: number } = {}) {
-  const controller = new AbortController();
-  const timeout = setTimeout(() => controller.abort(), init.timeoutMs ?? HTTP_TIMEOUT_MS);
-  try {
-    const response = await fetch(url, {
-      ...init,
-      signal: controller.signal,
-      cache: 'no-store',
-    });
-    return response;
-  } finally {
-    clearTimeout(timeout);
-  }
-}
-
-async function fetchJson<T>(url: string, init: RequestInit & { timeoutMs?: number } = {}) {
-  const res = await fetchWithTimeout(url, {
-    ...init,
-    headers: {
-      'User-Agent': 'NeuralFeed/0.1 (https://github.com/jianingqi/neural-feed)',
-      Accept: 'application/json',
-      ...(init.headers ?? {}),
-    },
-  });
-  if (!res.ok) {
-    let debug = '';
-    try {
-      debug = await res.text();
-    } catch {
-      // ignore
-    }
-    throw new Error(`HTTP ${res.status} for ${url}${debug ? ` — ${debug.slice(0, 280)}` : ''}`);
-  }
-  return (await res.json()) as T;
-}
-
-async function fetchText(url: string, init: RequestInit & { timeoutMs?: number } = {}) {
-  const res = await fetchWithTimeout(url, {
-    ...init,
-    headers: {
-      'User-Agent': 'NeuralFeed/0.1 (https://github.com/jianingqi/neural-feed)',
-      Accept: 'text/html,application/xhtml+xml',
-      ...(init.headers ?? {}),
-    },
-  });
-  if (!res.ok) {
-    throw new Error(`HTTP ${res.status} for ${url}`);
-  }
-  return res.text();
-}
-
 function fallbackCandidates(name: string): CandidateProfile[] {
   const base = name.toLowerCase().replace(/\s+/g, '-');
   const initials = name
@@ -422,6 +363,8 @@ interface ProfileSignalAugmentation {
   preferenceNotes?: string;
   sourceFocus: Record<string, number>;
   mode: 'llm' | 'fallback';
+  /** Version of the signals prompt, when the LLM produced them. */
+  promptVersion?: string;
 }
 
 function normalizeKeywordWeights(
@@ -443,19 +386,124 @@ function normalizeKeywordWeights(
   }));
 }
 
-function uniqueStrings(values: string[], limit: number) {
-  const seen = new Set<string>();
-  const result: string[] = [];
-  for (const value of values) {
-    const trimmed = value.trim();
-    if (!trimmed) continue;
-    const lower = trimmed.toLowerCase();
-    if (seen.has(lower)) continue;
-    seen.add(lower);
-    result.push(trimmed);
-    if (result.length >= limit) break;
+function pickOption<T extends string>(options: readonly T[], value: unknown, fallback: T): T {
+  return options.find(option => option === value) ?? fallback;
+}
+
+/**
+ * Takes the reader's edits (keywords and their weights, preferences, notes)
+ * onto the saved card. Everything else — summary, evidence, queries, source
+ * focus — stays as the profile stage built it.
+ */
+function applyProfileEdit(base: ProfileCardData, edit: Partial<ProfileCardData>): ProfileCardData {
+  const editedWeights = Array.isArray(edit.keywordWeights)
+    ? edit.keywordWeights
+        .filter(entry => typeof entry?.keyword === 'string' && entry.keyword.trim())
+        .map(entry => ({ keyword: entry.keyword.trim(), weight: Math.max(0, Math.min(1, Number(entry.weight) || 0)) }))
+    : [];
+  const keywords = dedupeStrings(
+    editedWeights.length > 0
+      ? editedWeights.map(entry => entry.keyword)
+      : Array.isArray(edit.keywords)
+        ? edit.keywords.filter((keyword): keyword is string => typeof keyword === 'string')
+        : base.keywords,
+    MAX_EDITED_KEYWORDS,
+  );
+  const weightByKeyword = new Map(editedWeights.map(entry => [entry.keyword.toLowerCase(), entry.weight]));
+  const preferences: ProfileCardData['preferences'] = {
+    depth: pickOption(['theory', 'practice', 'mixed'], edit.preferences?.depth, base.preferences.depth),
+    format: pickOption(['code', 'essay', 'video', 'mixed'], edit.preferences?.format, base.preferences.format),
+    novelty: pickOption(['low', 'medium', 'high'], edit.preferences?.novelty, base.preferences.novelty),
+  };
+
+  return {
+    ...base,
+    keywords,
+    keywordWeights: normalizeKeywordWeights(
+      keywords
+        .map(keyword => ({ keyword, weight: weightByKeyword.get(keyword.toLowerCase()) ?? 0 }))
+        .filter(entry => entry.weight > 0),
+      keywords,
+    ),
+    preferences,
+    preferenceNotes: typeof edit.preferenceNotes === 'string' ? truncate(edit.preferenceNotes.trim(), 600) : base.preferenceNotes,
+    editedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * A full run rebuilds the card from a fresh harvest, but keeps what the reader
+ * set by hand on the saved one: pinned queries, and an edit's keywords,
+ * weights, preferences and notes.
+ */
+function keepReaderEdits(built: ProfileCardData, saved: ProfileCardData | undefined): ProfileCardData {
+  if (!saved) return built;
+  const edited = saved.editedAt
+    ? {
+        keywords: saved.keywords,
+        keywordWeights: saved.keywordWeights,
+        preferences: saved.preferences,
+        preferenceNotes: saved.preferenceNotes,
+        editedAt: saved.editedAt,
+      }
+    : {};
+  return { ...built, ...edited, pinnedQueries: saved.pinnedQueries };
+}
+
+interface PlannedSlot {
+  slot: PlanSlotDescriptor;
+  planQueries?: SourceConnector['planQueries'];
+}
+
+/**
+ * Plan entries for the enabled connectors: each source without a `planSlot` gets its own,
+ * and a shared slot (e.g. social) gets one entry whichever of its providers are enabled.
+ * Connectors pointing at another source's slot reuse that source's queries.
+ */
+function plannedSlots(): PlannedSlot[] {
+  const slots = new Map<QuerySlot, PlannedSlot>();
+  for (const connector of listConnectors()) {
+    const { descriptor } = connector;
+    if (!descriptor.planSlot) {
+      slots.set(descriptor.id, { slot: descriptor, planQueries: connector.planQueries });
+      continue;
+    }
+    const shared = getSharedSlot(descriptor.planSlot);
+    if (shared && !slots.has(shared.id)) {
+      slots.set(shared.id, { slot: shared });
+    }
   }
-  return result;
+  return Array.from(slots.values());
+}
+
+/** Pinned queries go first, then the connector's adjustments, all within the slot's query limit. */
+function slotQueries({ slot, planQueries }: PlannedSlot, queries: string[], profile: ProfileCardData) {
+  const pinned = profile.pinnedQueries?.[slot.id] ?? [];
+  return uniqueStrings([...pinned, ...(planQueries?.(queries, profile) ?? queries)], slotQueryLimit(slot, profile.preferences));
+}
+
+/**
+ * Cleans a reader-edited plan to the planned slots and their query limits,
+ * and keeps only the pins whose query is still in the plan.
+ */
+function sanitizeEditedPlan(profile: ProfileCardData, edit: SourceQueryPlan, pins: SourceQueryPlan) {
+  const strings = (value: unknown) =>
+    Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : [];
+  const plan: SourceQueryPlan = {};
+  const pinnedQueries: SourceQueryPlan = {};
+  for (const { slot } of plannedSlots()) {
+    const queries = uniqueStrings(strings(edit[slot.id]), slotQueryLimit(slot, profile.preferences));
+    const planned = new Set(queries.map(query => query.toLowerCase()));
+    const pinned = uniqueStrings(
+      strings(pins[slot.id]).filter(query => planned.has(query.trim().toLowerCase())),
+      queries.length,
+    );
+    plan[slot.id] = queries;
+    if (pinned.length > 0) {
+      pinnedQueries[slot.id] = pinned;
+    }
+  }
+  return { plan, pinnedQueries };
 }
 
 function defaultSourceQueries(profile: ProfileCardData): PlanResult {
@@ -466,36 +514,21 @@ function defaultSourceQueries(profile: ProfileCardData): PlanResult {
   const queryHints = profile.queries.slice(0, 6);
   const primary = topKeywords.length > 0 ? topKeywords : [profile.summary];
 
-  const arxiv = uniqueStrings(
-    primary.map(keyword => `${keyword} arxiv`).concat(queryHints.map(q => `${q} paper`)),
-    4,
-  );
-  const hn = uniqueStrings(
-    primary.map(keyword => `${keyword} discussion`).concat(queryHints.map(q => `${q} project news`)),
-    4,
-  );
-  const news = uniqueStrings(
-    primary.map(keyword => `${keyword} interview`).concat(queryHints.map(q => `${q} blog post`)),
-    4,
-  );
-  const x = uniqueStrings(
-    primary.map(keyword => `${keyword} insights`).concat(queryHints.map(q => `${q} commentary`)),
-    4,
-  );
+  const plan: SourceQueryPlan = {};
+  for (const planned of plannedSlots()) {
+    const { keyword: keywordSuffix, query: querySuffix } = planned.slot.fallbackSuffixes;
+    const queries = primary.map(keyword => `${keyword} ${keywordSuffix}`).concat(queryHints.map(q => `${q} ${querySuffix}`));
+    plan[planned.slot.id] = slotQueries(planned, queries, profile);
+  }
 
   return {
-    plan: {
-      arxiv,
-      hn,
-      news,
-      x,
-    },
+    plan,
     mode: 'fallback',
   };
 }
 
 async function generateSourceQueries(profile: ProfileCardData): Promise<PlanResult> {
-  if (!openaiClient) {
+  if (!hasLlm('plan')) {
     return defaultSourceQueries(profile);
   }
 
@@ -510,47 +543,30 @@ async function generateSourceQueries(profile: ProfileCardData): Promise<PlanResu
     2,
   );
 
+  const slots = plannedSlots();
   const template = `{
-  "arxiv": ["..."],
-  "hn": ["..."],
-  "news": ["..."],
-  "x": ["..."]
+${slots.map(({ slot }) => `  "${slot.id}": ["..."]`).join(',\n')}
 }`;
-
-  const userPrompt = `Given the profile below, craft focused search queries for each source so we retrieve high-signal items. Keep each array to at most 4 entries. Return JSON only in the schema:
-${template}
-
-Profile:
-${profileContext}`;
+  const sourceGuide = slots
+    .map(({ slot }) => `- ${slot.id} (${slot.name}, at most ${slotQueryLimit(slot, profile.preferences)}): ${slot.planHint}`)
+    .join('\n');
+
+  const prompt = renderPrompt(queryPlanPrompt, {
+    sourceNames: slots.map(({ slot }) => slot.name).join(', '),
+    template,
+    sourceGuide,
+    profile: profileContext,
+  });
 
   try {
-    const response = await openaiClient.responses.create({
-      model: env.openaiModelRank,
-      temperature: 0.2,
-      input: [
-        {
-          role: 'system',
-          content:
-            'You generate targeted search queries for different content sources (arxiv, hn, news, x.com) based on a profile. The queries should be specific to the profile and the sources to recommend the best content.',
-        },
-        { role: 'user', content: userPrompt },
-      ],
-    });
-
-    const text = response.output_text.trim();
-    const jsonStart = text.indexOf('{');
-    const jsonEnd = text.lastIndexOf('}');
-    if (jsonStart === -1 || jsonEnd === -1) {
-      throw new Error('Query plan JSON not found.');
+    const parsed = await completeJson('plan', prompt, queryPlanSchema(slots.map(({ slot }) => slot.id)));
+    recordPromptVersion(prompt);
+    const plan: SourceQueryPlan = {};
+    for (const planned of slots) {
+      plan[planned.slot.id] = slotQueries(planned, parsed[planned.slot.id] ?? [], profile);
     }
-    const parsed = JSON.parse(text.slice(jsonStart, jsonEnd + 1)) as Partial<SourceQueryPlan>;
     return {
-      plan: {
-        arxiv: uniqueStrings(parsed.arxiv ?? [], 4),
-        hn: uniqueStrings(parsed.hn ?? [], 4),
-        news: uniqueStrings(parsed.news ?? [], 4),
-        x: uniqueStrings(parsed.x ?? [], 4),
-      },
+      plan,
       mode: 'llm',
     };
   } catch (error) {
@@ -565,7 +581,7 @@ interface ClusterSummary {
 }
 
 async function clusterSearchResults(name: string, results: SearchResult[]): Promise<CandidateCluster[]> {
-  if (!openaiClient || results.length === 0) {
+  if (!hasLlm('discover') || results.length === 0) {
     return [];
   }
 
@@ -576,44 +592,9 @@ async function clusterSearchResults(name: string, results: SearchResult[]): Prom
     )
     .join('\n\n');
 
-  const userPrompt = `You are helping cluster search results for the person named "${name}". Group the URLs that appear to describe the same individual. If the results obviously belong to different people, create separate entries. Prefer GitHub or personal sites as primary URLs. Output up to 6 candidates.
-
-Return JSON ONLY in the form:
-{
-  "candidates": [
-    {
-      "display_name": "...",
-      "primary_url": "...",
-      "summary": "short factual summary <=30 words",
-      "support_urls": ["...", "..."]
-    }
-  ]
-}
-
-Use only URLs from the list. Discard LinkedIn URLs in the output.`;
-
   try {
-    const response = await openaiClient.responses.create({
-      model: env.openaiModelProfile,
-      temperature: 0.1,
-      input: [
-        {
-          role: 'system',
-          content:
-            'You cluster search results referring to the same individual. Provide concise factual summaries and ensure URLs remain accurate.',
-        },
-        { role: 'user', content: `${snippets}\n\n${userPrompt}` },
-      ],
-    });
-
-    const text = response.output_text.trim();
-    const jsonStart = text.indexOf('{');
-    const jsonEnd = text.lastIndexOf('}');
-    if (jsonStart === -1 || jsonEnd === -1) {
-      throw new Error('Candidate JSON not found.');
-    }
-    const parsed = JSON.parse(text.slice(jsonStart, jsonEnd + 1)) as { candidates?: CandidateCluster[] };
-    return parsed.candidates?.filter(candidate => candidate.primary_url) ?? [];
+    const parsed = await completeJson('discover', renderPrompt(clusterPrompt, { name, snippets }), clusterSchema);
+    return parsed.candidates.filter(candidate => candidate.primary_url);
   } catch (error) {
     console.error('[discovery] clusterSearchResults failed', error);
     return [];
@@ -709,7 +690,7 @@ async function discoverCandidates(name: string): Promise<CandidateDiscovery> {
     };
   }
 
-  if (!openaiClient) {
+  if (!hasLlm('discover')) {
     return {
       candidates: dedupeCandidates(heuristics),
       mode: 'heuristic',
@@ -730,53 +711,14 @@ Support URLs: ${JSON.stringify(extras)}`;
     })
     .join('\n\n');
 
-  const mergePrompt = `You will merge candidate profiles that refer to the same person named "${name}".
-The candidates come from web search results. Merge those that clearly describe the same individual and retain distinct ones otherwise.
-Return JSON only:
-{
-  "candidates": [
-    {
-      "display_name": "...",
-      "primary_url": "...",
-      "summary": "short summary",
-      "support_urls": ["..."],
-      "source": "github|site"
-    }
-  ]
-}
-Prefer GitHub URLs as primary when present. Include all distinct support URLs.`;
-
   try {
-    const response = await openaiClient.responses.create({
-      model: env.openaiModelProfile,
-      temperature: 0.1,
-      input: [
-        {
-          role: 'system',
-          content: 'You merge candidate web identities into distinct people with concise factual summaries.',
-        },
-        {
-          role: 'user',
-          content: `${heuristicsSummary}\n\n${mergePrompt}`,
-        },
-      ],
-    });
+    const parsed = await completeJson(
+      'discover',
+      renderPrompt(mergePrompt, { name, candidates: heuristicsSummary }),
+      mergeSchema,
+    );
 
-    const text = response.output_text.trim();
-    const jsonStart = text.indexOf('{');
-    const jsonEnd = text.lastIndexOf('}');
-    if (jsonStart === -1 || jsonEnd === -1) {
-      throw new Error('Merge JSON not found.');
-    }
-    const parsed = JSON.parse(text.slice(jsonStart, jsonEnd + 1)) as { candidates?: Array<{
-      display_name: string;
-      primary_url: string;
-      summary?: string;
-      support_urls?: string[];
-      source?: CandidateSource;
-    }>; };
-
-    const merged = (parsed.candidates ?? []).map(entry => {
+    const merged = parsed.candidates.map(entry => {
       const source = entry.source ?? tagForUrl(entry.primary_url);
       return {
         id: `${Buffer.from(entry.primary_url).toString('base64').slice(0, 10)}-${source}`,
@@ -825,6 +767,7 @@ async function resolveIdentities(profileUrl: string): Promise<IdentityResult> {
         const host = new URL(normalized).hostname.toLowerCase();
         if (
           host.includes('github.com') ||
+          host.includes('huggingface.co') ||
           host.includes('linkedin.com') ||
           host.includes('scholar.google.com') ||
           host.includes('twitter.com') ||
@@ -857,29 +800,13 @@ function cutText(content: string, maxChars: number) {
   return `${text.slice(0, maxChars)}…`;
 }
 
-async function extractReadableContent(url: string) {
-  try {
-    const html = await fetchText(url);
-    const text = stripHtml(html);
-    return truncate(text, 1200);
-  } catch {
-    return '';
-  }
-}
-
 async function harvestGitHub(url: string): Promise<HarvestSnippet[]> {
   try {
     const parsed = new URL(url);
     const [username] = parsed.pathname.split('/').filter(Boolean);
     if (!username) return [];
 
-    const headers: Record<string, string> = {
-      Accept: 'application/vnd.github+json',
-      'User-Agent': 'NeuralFeed/0.1',
-    };
-    if (env.githubToken) {
-      headers.Authorization = `Bearer ${env.githubToken}`;
-    }
+    const headers = githubHeaders();
 
     const user = await fetchJson<{
       name?: string;
@@ -934,6 +861,72 @@ async function harvestGitHub(url: string): Promise<HarvestSnippet[]> {
   }
 }
 
+// Snippets are tagged with the feed's source id so `sourceFocus` and feedback share one key.
+async function harvestHuggingFace(url: string): Promise<HarvestSnippet[]> {
+  const username = huggingfaceUsername(url);
+  if (!username) return [];
+
+  const headers = huggingfaceHeaders();
+  const [overview, models, datasets] = await Promise.all([
+    // Organizations have no user overview; their models and datasets are still listed by author.
+    fetchJson<{
+      fullname?: string;
+      numModels?: number;
+      numDatasets?: number;
+      numSpaces?: number;
+      numPapers?: number;
+      numFollowers?: number;
+    }>(`${HUGGINGFACE_BASE_URL}/api/users/${username}/overview`, { headers }).catch(() => null),
+    fetchJson<Array<{ id: string; likes?: number; downloads?: number; pipeline_tag?: string }>>(
+      `${HUGGINGFACE_BASE_URL}/api/models?author=${encodeURIComponent(username)}&sort=downloads&direction=-1&limit=5`,
+      { headers },
+    ).catch(() => []),
+    fetchJson<Array<{ id: string; likes?: number; downloads?: number }>>(
+      `${HUGGINGFACE_BASE_URL}/api/datasets?author=${encodeURIComponent(username)}&sort=downloads&direction=-1&limit=3`,
+      { headers },
+    ).catch(() => []),
+  ]);
+
+  const snippets: HarvestSnippet[] = [];
+
+  if (overview) {
+    snippets.push({
+      source: 'hf',
+      title: `${overview.fullname ?? username} Hugging Face overview`,
+      snippet: truncate(
+        `Models: ${overview.numModels ?? 0} • Datasets: ${overview.numDatasets ?? 0} • Spaces: ${
+          overview.numSpaces ?? 0
+        } • Papers: ${overview.numPapers ?? 0} • Followers: ${overview.numFollowers ?? 0}`,
+        320,
+      ),
+      url: `${HUGGINGFACE_BASE_URL}/${username}`,
+    });
+  }
+
+  for (const model of models) {
+    snippets.push({
+      source: 'hf',
+      title: model.id,
+      snippet: truncate(
+        `${model.pipeline_tag ?? 'Model'} • Likes: ${model.likes ?? 0} • Downloads: ${model.downloads ?? 0}`,
+        320,
+      ),
+      url: `${HUGGINGFACE_BASE_URL}/${model.id}`,
+    });
+  }
+
+  for (const dataset of datasets) {
+    snippets.push({
+      source: 'hf',
+      title: dataset.id,
+      snippet: truncate(`Dataset • Likes: ${dataset.likes ?? 0} • Downloads: ${dataset.downloads ?? 0}`, 320),
+      url: `${HUGGINGFACE_BASE_URL}/datasets/${dataset.id}`,
+    });
+  }
+
+  return snippets;
+}
+
 async function harvestWebsite(url: string): Promise<HarvestSnippet[]> {
   const content = await extractReadableContent(url);
   if (!content) return [];
@@ -962,18 +955,13 @@ async function harvestNews(name: string): Promise<HarvestSnippet[]> {
     });
 
     const snippets: HarvestSnippet[] = [];
-    const itemRegex = /<item>([\s\S]*?)<\/item>/gi;
-    let match: RegExpExecArray | null;
-    while ((match = itemRegex.exec(xml))) {
-      const block = match[1];
-      const linkMatch = /<link>([^<]+)<\/link>/i.exec(block);
-      const urlValue = linkMatch ? decodeEntities(linkMatch[1]) : '';
-      if (!urlValue) continue;
+    for (const entry of parseFeed(xml).entries) {
+      if (!entry.url) continue;
       snippets.push({
         source: 'news',
-        title: extractTagContent(block, 'title') || 'News mention',
-        snippet: truncate(extractTagContent(block, 'description') || '', 320),
-        url: urlValue,
+        title: entry.title || 'News mention',
+        snippet: truncate(entry.summary, 320),
+        url: entry.url,
       });
       if (snippets.length >= 6) break;
     }
@@ -994,6 +982,8 @@ async function harvestIdentities(name: string, identities: string[]): Promise<Ha
       let harvested: HarvestSnippet[] = [];
       if (host.includes('github.com')) {
         harvested = await harvestGitHub(identity);
+      } else if (host.includes('huggingface.co')) {
+        harvested = await harvestHuggingFace(identity);
       } else if (host.includes('linkedin.com')) {
         // Temporarily skip LinkedIn harvesting due to access limitations.
         continue;
@@ -1058,9 +1048,9 @@ function buildFallbackProfile(name: string, docs: HarvestSnippet[]): ProfileCard
   };
 }
 
-async function buildProfileCard(name: string, docs: HarvestSnippet[]): Promise<ProfileCardData> {
-  if (!openaiClient) {
-    return buildFallbackProfile(name, docs);
+async function buildProfileCard(name: string, docs: HarvestSnippet[], lens: ProfileLens): Promise<ProfileCardData> {
+  if (!hasLlm('profile')) {
+    return { ...buildFallbackProfile(name, docs), lens };
   }
 
   const docBlocks = docs
@@ -1070,53 +1060,13 @@ async function buildProfileCard(name: string, docs: HarvestSnippet[]): Promise<P
     )
     .join('\n\n');
 
-  const systemPrompt =
-    // 'You are an analyst turning harvested public data into a concise profile card. Be factual, avoid speculation, and respect the schema exactly.';
-    'You are an analyst turning harvested public data into a psychological profile card. The profile card should be a deep dive into the person\'s psychology, their motivations, their goals, and their interests.';
-  // "summary": "string<=80w",
-
-  const schema = `{
-  "summary": "string. a factual based comprehensive psychological profile of the person",
-  "keywords": ["k1","k2","k3"],
-  "queries": ["q1","q2","q3"],
-  "preferences": {"depth":"theory|practice|mixed","format":"code|essay|video|mixed","novelty":"low|medium|high"},
-  "evidence": [{"claim":"string","support_url":"url"}]
-}`;
-
-  const userPrompt = `Build a profile card for "${name}" using the harvested documents below. Return JSON only, no commentary. Respect the schema:
-${schema}
-
-Documents:
-${docBlocks}`;
+  const prompt = renderPrompt(profileCardPrompt, { name, documents: docBlocks }, lens);
 
   try {
-    const response = await openaiClient.responses.create({
-      model: env.openaiModelProfile,
-      temperature: 0.3,
-      input: [
-        {
-          role: 'system',
-          content: systemPrompt,
-        },
-        {
-          role: 'user',
-          content: userPrompt,
-        },
-      ],
-    });
-
-    const text = response.output_text.trim();
-    const jsonStart = text.indexOf('{');
-    const jsonEnd = text.lastIndexOf('}');
-
-    if (jsonStart === -1 || jsonEnd === -1) {
-      throw new Error('Profile JSON not found.');
-    }
-
-    const parsed = JSON.parse(text.slice(jsonStart, jsonEnd + 1)) as ProfileCardData;
-    return parsed;
+    const parsed = await completeJson('profile', prompt, profileCardSchema);
+    return { ...parsed, lens, promptVersions: { [prompt.id]: prompt.version } };
   } catch {
-    return buildFallbackProfile(name, docs);
+    return { ...buildFallbackProfile(name, docs), lens };
   }
 }
 
@@ -1127,7 +1077,7 @@ async function augmentProfileSignals(
   sourceSignals: Record<string, number>,
 ): Promise<ProfileSignalAugmentation> {
   const keywordCounts = computeKeywordCounts(profile.keywords, docs);
-  if (!openaiClient) {
+  if (!hasLlm('profile')) {
     return {
       keywordWeights: defaultKeywordWeighting(profile, keywordCounts),
       additionalQueries: dedupeStrings(profile.queries, 6),
@@ -1151,56 +1101,23 @@ async function augmentProfileSignals(
     source_focus: sourceSignals,
   };
 
-  const schema = `{
-  "keyword_weights": [{"keyword": "...", "weight": 0.32, "rationale": "..."}],
-  "additional_queries": ["..."],
-  "preference_notes": "..."
-}`;
-
-  const userPrompt = `Expand the interest signals for ${name}. Use the documents and current profile to assign weights to keywords (normalized 0-1), recommend up to 4 fresh queries, and capture any preference notes. Return JSON exactly matching:
-${schema}
-
-Documents:
-${docDigest}
-
-Current signals:
-${JSON.stringify(signalContext, null, 2)}
-
-Profile summary:
-${profile.summary}`;
+  const prompt = renderPrompt(profileSignalsPrompt, {
+    name,
+    documents: docDigest,
+    signals: JSON.stringify(signalContext, null, 2),
+    summary: profile.summary,
+  }, profile.lens);
 
   try {
-    const response = await openaiClient.responses.create({
-      model: env.openaiModelProfile,
-      temperature: 0.2,
-      input: [
-        {
-          role: 'system',
-          content: 'You synthesize profile signals, outputting strict JSON with weighted keywords and concise notes.',
-        },
-        { role: 'user', content: userPrompt },
-      ],
-    });
-
-    const text = response.output_text.trim();
-    const jsonStart = text.indexOf('{');
-    const jsonEnd = text.lastIndexOf('}');
-    if (jsonStart === -1 || jsonEnd === -1) {
-      throw new Error('Augmentation JSON not found.');
-    }
-
-    const parsed = JSON.parse(text.slice(jsonStart, jsonEnd + 1)) as {
-      keyword_weights?: Array<{ keyword: string; weight: number; rationale?: string }>;
-      additional_queries?: string[];
-      preference_notes?: string;
-    };
+    const parsed = await completeJson('profile', prompt, augmentationSchema);
 
     return {
-      keywordWeights: normalizeKeywordWeights(parsed.keyword_weights ?? [], profile.keywords),
+      keywordWeights: normalizeKeywordWeights(parsed.keyword_weights, profile.keywords),
       additionalQueries: dedupeStrings([...profile.queries, ...(parsed.additional_queries ?? [])], 8),
       preferenceNotes: parsed.preference_notes,
       sourceFocus: sourceSignals,
       mode: 'llm',
+      promptVersion: prompt.version,
     };
   } catch (error) {
     console.error('[profile] augmentProfileSignals failed', error);
@@ -1214,254 +1131,287 @@ ${profile.summary}`;
   }
 }
 
-async function fetchArxiv(query: string, count = 5): Promise<CandidateContent[]> {
-  try {
-    const url = new URL('https://export.arxiv.org/api/query');
-    url.searchParams.set('search_query', `all:${query}`);
-    url.searchParams.set('start', '0');
-    url.searchParams.set('max_results', String(count));
+interface CandidateContentResult {
+  items: CandidateContent[];
+  plan: SourceQueryPlan;
+  mode: PlanMode;
+}
 
-    const response = await fetchText(url.toString(), {
-      headers: {
-        Accept: 'application/atom+xml',
-      },
-    });
+interface RankingResult {
+  exploitation: FeedItem[];
+  leftovers: FeedItem[];
+}
 
-    const entries: CandidateContent[] = [];
-    const entryRegex = /<entry>([\s\S]*?)<\/entry>/gi;
-    let match: RegExpExecArray | null;
-    while ((match = entryRegex.exec(response))) {
-      const block = match[1];
-      const id = extractTagContent(block, 'id') || extractLinkHref(block) || `arxiv-${Math.random().toString(16).slice(2)}`;
-      const title = extractTagContent(block, 'title') || 'arXiv entry';
-      const summary = extractTagContent(block, 'summary');
-      const updated = extractTagContent(block, 'updated');
-      const link = extractLinkHref(block) || id;
-      entries.push({
-        id,
-        source: 'arxiv',
-        title,
-        snippet: truncate(summary || title, 360),
-        url: link,
-        date: updated ? updated.slice(0, 10) : new Date().toISOString().slice(0, 10),
-      });
-      if (entries.length >= count) break;
-    }
+interface QueryOutcome {
+  slot: QuerySlot;
+  query: string;
+  /** Items asked for across the slot's connectors. */
+  requested: number;
+  hits: number;
+}
 
-    return entries;
-  } catch {
-    return [];
-  }
+interface FetchedQueries {
+  items: CandidateContent[];
+  outcomes: QueryOutcome[];
 }
 
-async function fetchHackerNews(query: string, count = 5): Promise<CandidateContent[]> {
-  if (!env.googleSearchKey || !env.googleSearchCx) {
-    return [];
+/**
+ * Runs the plan's queries on every enabled connector, tagging each item with
+ * the query that found it and counting hits per query. `shouldFetch` narrows
+ * the run to some queries.
+ */
+async function fetchPlannedQueries(
+  plan: SourceQueryPlan,
+  profile: ProfileCardData,
+  shouldFetch: (slot: QuerySlot, query: string) => boolean = () => true,
+): Promise<FetchedQueries> {
+  const collectors: Promise<CandidateContent[]>[] = [];
+  const outcomes = new Map<string, QueryOutcome>();
+
+  for (const connector of listConnectors()) {
+    const { maxQueries, perQueryCount } = sourceBudget(connector.descriptor, profile.preferences);
+    const slot = connector.descriptor.planSlot ?? connector.descriptor.id;
+    for (const query of (plan[slot] ?? []).slice(0, maxQueries)) {
+      if (!shouldFetch(slot, query)) continue;
+      const key = `${slot}:${query}`;
+      const outcome = outcomes.get(key) ?? { slot, query, requested: 0, hits: 0 };
+      outcome.requested += perQueryCount;
+      outcomes.set(key, outcome);
+      collectors.push(
+        connector.fetch(query, perQueryCount).then(items => {
+          outcome.hits += items.length;
+          return items.map(item => ({ ...item, query }));
+        }),
+      );
+    }
   }
 
-  try {
-    const url = new URL('https://www.googleapis.com/customsearch/v1');
-    url.searchParams.set('key', env.googleSearchKey);
-    url.searchParams.set('cx', env.googleSearchCx);
-    url.searchParams.set('q', `site:news.ycombinator.com ${query}`);
-    url.searchParams.set('num', String(Math.min(count * 2, 10)));
-    url.searchParams.set('safe', 'off');
-
-    const response = await fetchJson<{
-      items?: Array<{
-        title?: string;
-        link?: string;
-        snippet?: string;
-      }>;
-    }>(url.toString());
-
-    const results = response.items ?? [];
-    const candidates: CandidateContent[] = [];
-    const seen = new Set<string>();
-
-    for (const result of results) {
-      if (!result.link) continue;
-      try {
-        const normalized = new URL(result.link).toString();
-        if (seen.has(normalized)) continue;
-        seen.add(normalized);
-
-        const content = await extractReadableContent(normalized);
-        candidates.push({
-          id: `hn-${Buffer.from(normalized).toString('base64').slice(0, 10)}`,
-          source: 'hn',
-          title: result.title ?? normalized,
-          snippet: truncate((content || result.snippet) ?? '', 320),
-          url: normalized,
-          date: new Date().toISOString().slice(0, 10),
-        });
-        if (candidates.length >= count) break;
-      } catch {
-        continue;
+  const results = await Promise.allSettled(collectors);
+  return {
+    items: results.flatMap(result => (result.status === 'fulfilled' ? result.value : [])),
+    outcomes: Array.from(outcomes.values()),
+  };
+}
+
+/** Plan slots with at least one enabled source holding fewer distinct items than its per-source cap. */
+function slotsBelowQuota(items: CandidateContent[], profile: ProfileCardData): Set<QuerySlot> {
+  const idsBySource = new Map<FeedSource, Set<string>>();
+  for (const item of items) {
+    const ids = idsBySource.get(item.source) ?? new Set<string>();
+    ids.add(item.id);
+    idsBySource.set(item.source, ids);
+  }
+  const short = new Set<QuerySlot>();
+  for (const { descriptor } of listConnectors()) {
+    const { perSourceCap } = sourceBudget(descriptor, profile.preferences);
+    if ((idsBySource.get(descriptor.id)?.size ?? 0) < perSourceCap) {
+      short.add(descriptor.planSlot ?? descriptor.id);
+    }
+  }
+  return short;
+}
+
+/**
+ * Deterministic rewrite for a weak query: strip quotes and boolean operators,
+ * then keep the leading half of the terms, then fall back to the profile's
+ * strongest keywords with the slot's fallback suffix.
+ */
+function broadenQuery({ slot, query }: QueryOutcome, profile: ProfileCardData): string[] {
+  const terms = query
+    .replace(/["()]/g, ' ')
+    .replace(/\b(?:OR|AND)\b/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+  const descriptor = getSharedSlot(slot) ?? getSourceDescriptor(slot as FeedSource);
+  const keywords = (profile.keywordWeights && profile.keywordWeights.length > 0
+    ? [...profile.keywordWeights].sort((a, b) => b.weight - a.weight).map(entry => entry.keyword)
+    : profile.keywords
+  ).slice(0, 6);
+  const candidates: string[] = [];
+  if (terms.length > 1) candidates.push(terms.slice(0, Math.ceil(terms.length / 2)).join(' '));
+  if (terms.length > 2) candidates.push(terms.slice(0, 2).join(' '));
+  candidates.push(...keywords.map(keyword => `${keyword} ${descriptor.fallbackSuffixes.keyword}`.trim()));
+  return candidates;
+}
+
+/**
+ * Rewrites for weak queries, keyed by `slot:query`. Asks the LLM when one is
+ * configured and fills any gaps with `broadenQuery`. Rewrites go through the
+ * slot's `planQueries` (e.g. Lobsters tags), and queries already tried are skipped.
+ */
+async function reformulateQueries(
+  profile: ProfileCardData,
+  weak: QueryOutcome[],
+  tried: Set<string>,
+): Promise<Map<string, string>> {
+  const slots = new Map(plannedSlots().map(planned => [planned.slot.id, planned]));
+  const suggestions = new Map<string, string[]>();
+
+  if (hasLlm('plan')) {
+    const queryBlock = weak
+      .map(outcome => {
+        const slot = slots.get(outcome.slot)?.slot;
+        return `- slot "${outcome.slot}" (${slot?.name ?? outcome.slot}: ${slot?.planHint ?? ''}) query "${outcome.query}" returned ${outcome.hits} of ${outcome.requested} items`;
+      })
+      .join('\n');
+    const prompt = renderPrompt(queryRewritePrompt, { queries: queryBlock, keywords: profile.keywords.join(', ') });
+    try {
+      const parsed = await completeJson('plan', prompt, queryRewriteSchema);
+      recordPromptVersion(prompt);
+      for (const entry of parsed.rewrites) {
+        if (entry.rewrite.trim()) {
+          suggestions.set(`${entry.slot}:${entry.query}`, [entry.rewrite.trim()]);
+        }
       }
+    } catch (error) {
+      console.error('[feed] reformulateQueries failed', error);
     }
-
-    return candidates;
-  } catch (error) {
-    console.error('[feed] fetchHackerNews failed', error);
-    return [];
   }
-}
-
-async function fetchNewsArticles(query: string, count = 5): Promise<CandidateContent[]> {
-  try {
-    const url = new URL('https://news.google.com/rss/search');
-    url.searchParams.set('q', `${query} when:7d`);
-    url.searchParams.set('hl', 'en-US');
-    url.searchParams.set('gl', 'US');
-    url.searchParams.set('ceid', 'US:en');
-
-    const xml = await fetchText(url.toString(), {
-      headers: {
-        Accept: 'application/rss+xml,text/xml',
-      },
-    });
 
-    const items: CandidateContent[] = [];
-    const itemRegex = /<item>([\s\S]*?)<\/item>/gi;
-    let match: RegExpExecArray | null;
-    while ((match = itemRegex.exec(xml))) {
-      const block = match[1];
-      const linkMatch = /<link>([^<]+)<\/link>/i.exec(block);
-      const title = extractTagContent(block, 'title') || 'News article';
-      const description = stripHtml(extractTagContent(block, 'description') ?? '');
-      const pubDate = extractTagContent(block, 'pubDate');
-      const urlValue = linkMatch ? decodeEntities(linkMatch[1]) : '';
-      if (!urlValue) continue;
-      items.push({
-        id: `news-${Buffer.from(urlValue).toString('base64').slice(0, 12)}`,
-        source: 'news',
-        title: title,
-        snippet: truncate(description || title, 260),
-        url: urlValue,
-        date: pubDate ? new Date(pubDate).toISOString().slice(0, 10) : new Date().toISOString().slice(0, 10),
-      });
-      if (items.length >= count) break;
+  const rewrites = new Map<string, string>();
+  for (const outcome of weak) {
+    const key = `${outcome.slot}:${outcome.query}`;
+    const planQueries = slots.get(outcome.slot)?.planQueries;
+    const candidates = [...(suggestions.get(key) ?? []), ...broadenQuery(outcome, profile)].flatMap(candidate =>
+      planQueries ? planQueries([candidate], profile) : [candidate],
+    );
+    const rewrite = candidates.map(candidate => candidate.trim()).find(candidate => candidate && !tried.has(candidate.toLowerCase()));
+    if (rewrite) {
+      rewrites.set(key, rewrite);
+      tried.add(rewrite.toLowerCase());
     }
-    return items;
-  } catch (error) {
-    console.error('[feed] fetchNewsArticles failed', error);
-    return [];
   }
+  return rewrites;
 }
 
-async function fetchXPosts(query: string, count = 5): Promise<CandidateContent[]> {
-  if (!env.googleSearchKey || !env.googleSearchCx) {
-    return [];
-  }
-
-  try {
-    const url = new URL('https://www.googleapis.com/customsearch/v1');
-    url.searchParams.set('key', env.googleSearchKey);
-    url.searchParams.set('cx', env.googleSearchCx);
-    url.searchParams.set('q', `site:x.com ${query}`);
-    url.searchParams.set('num', String(Math.min(count * 2, 10)));
-    url.searchParams.set('safe', 'off');
-
-    const response = await fetchJson<{
-      items?: Array<{
-        title?: string;
-        link?: string;
-        snippet?: string;
-      }>;
-    }>(url.toString());
-
-    const results = response.items ?? [];
-    const items: CandidateContent[] = [];
-    const seen = new Set<string>();
-
-    for (const result of results) {
-      if (!result.link) continue;
-      try {
-        const normalized = new URL(result.link).toString();
-        if (seen.has(normalized)) continue;
-        seen.add(normalized);
-
-        items.push({
-          id: `x-${Buffer.from(normalized).toString('base64').slice(0, 10)}`,
-          source: 'x',
-          title: result.title ?? normalized,
-          snippet: truncate(result.snippet ?? result.title ?? '', 240),
-          url: normalized,
-          date: new Date().toISOString().slice(0, 10),
-        });
+/**
+ * Refinement stage: while a source is short of its quota, queries in its slot
+ * that came back empty or thin (under half of what was asked for) are
+ * reformulated and fetched again, for at most `MAX_REFINEMENT_ROUNDS` rounds.
+ * Later rounds rewrite the previous round's rewrites, so each chain of rewrites
+ * is traced back to the planned query it started from; a rewrite takes that
+ * query's place in the plan only when it found more than the chain's best so
+ * far. Pinned queries are never rewritten. Every retry is logged.
+ */
+async function refineWeakQueries(
+  profile: ProfileCardData,
+  plan: SourceQueryPlan,
+  fetched: FetchedQueries,
+  log: StageLog,
+): Promise<{ plan: SourceQueryPlan; items: CandidateContent[] }> {
+  const refinedPlan: SourceQueryPlan = Object.fromEntries(
+    Object.entries(plan).map(([slot, queries]) => [slot, [...(queries ?? [])]]),
+  );
+  const pinned = new Set(Object.values(profile.pinnedQueries ?? {}).flat().map(query => query.toLowerCase()));
+  const tried = new Set(Object.values(plan).flat().map(query => (query ?? '').toLowerCase()));
+  let { items, outcomes } = fetched;
+  // `${slot}:${query}` of every rewrite tried, to the key of the planned query its chain started from.
+  const chains = new Map<string, string>();
+  // Per chain, the query currently standing in the plan and its hits.
+  const best = new Map<string, { query: string; hits: number }>();
+
+  for (let round = 1; round <= MAX_REFINEMENT_ROUNDS; round += 1) {
+    const short = slotsBelowQuota(items, profile);
+    const weak = outcomes.filter(
+      outcome => short.has(outcome.slot) && outcome.hits < outcome.requested / 2 && !pinned.has(outcome.query.toLowerCase()),
+    );
+    if (weak.length === 0) break;
+
+    log(`Refinement round ${round}: reformulating ${weak.length} weak queries (${Array.from(new Set(weak.map(outcome => outcome.slot))).join(', ')})…`, 'info');
+    const rewrites = await reformulateQueries(profile, weak, tried);
+    const retryPlan: SourceQueryPlan = {};
+    for (const outcome of weak) {
+      const rewrite = rewrites.get(`${outcome.slot}:${outcome.query}`);
+      if (rewrite) retryPlan[outcome.slot] = [...(retryPlan[outcome.slot] ?? []), rewrite];
+    }
+    if (Object.keys(retryPlan).length === 0) {
+      log('No new query rewrites left to try.', 'warning');
+      break;
+    }
 
-        if (items.length >= count) break;
-      } catch {
-        continue;
+    const retry = await fetchPlannedQueries(retryPlan, profile);
+    for (const outcome of weak) {
+      const rewrite = rewrites.get(`${outcome.slot}:${outcome.query}`);
+      if (!rewrite) continue;
+      const hits = retry.outcomes.find(entry => entry.slot === outcome.slot && entry.query === rewrite)?.hits ?? 0;
+      const key = `${outcome.slot}:${outcome.query}`;
+      const chain = chains.get(key) ?? key;
+      const standing = best.get(chain) ?? { query: outcome.query, hits: outcome.hits };
+      chains.set(`${outcome.slot}:${rewrite}`, chain);
+      log(
+        `Retried ${outcome.slot} query "${outcome.query}" (${outcome.hits} hits) as "${rewrite}": ${hits} hits.`,
+        hits > standing.hits ? 'success' : 'warning',
+      );
+      if (hits > standing.hits) {
+        refinedPlan[outcome.slot] = (refinedPlan[outcome.slot] ?? []).map(query => (query === standing.query ? rewrite : query));
+        best.set(chain, { query: rewrite, hits });
+      } else {
+        best.set(chain, standing);
       }
     }
-
-    return items;
-  } catch (error) {
-    console.error('[feed] fetchXPosts failed', error);
-    return [];
+    items = [...items, ...retry.items];
+    outcomes = retry.outcomes;
   }
-}
 
-interface CandidateContentResult {
-  items: CandidateContent[];
-  plan: SourceQueryPlan;
-  mode: 'llm' | 'fallback';
+  return { plan: refinedPlan, items };
 }
 
-interface RankingResult {
-  exploitation: FeedItem[];
-  leftovers: FeedItem[];
-}
-
-async function gatherCandidateContent(profile: ProfileCardData): Promise<CandidateContentResult> {
+async function gatherCandidateContent(profile: ProfileCardData, log: StageLog): Promise<CandidateContentResult> {
   const planResult = await generateSourceQueries(profile);
-  const plan = planResult.plan;
-
-  const collectors: Promise<CandidateContent[]>[] = [];
-
-  for (const query of plan.arxiv.slice(0, 4)) {
-    collectors.push(fetchArxiv(query, 3));
-  }
-  for (const query of plan.hn.slice(0, 4)) {
-    collectors.push(fetchHackerNews(query, 3));
-  }
-  for (const query of plan.news.slice(0, 4)) {
-    collectors.push(fetchNewsArticles(query, 3));
-  }
-  for (const query of plan.x.slice(0, 4)) {
-    collectors.push(fetchXPosts(query, 3));
-  }
-
-  const results = await Promise.allSettled(collectors);
-  const items: CandidateContent[] = [];
-  const seen = new Set<string>();
-
-  for (const result of results) {
-    if (result.status === 'fulfilled') {
-      for (const item of result.value) {
-        if (!seen.has(item.id)) {
-          items.push(item);
-          seen.add(item.id);
-        }
-      }
-    }
-  }
-
+  const fetched = await fetchPlannedQueries(planResult.plan, profile);
+  const refined = await refineWeakQueries(profile, planResult.plan, fetched, log);
   return {
-    items: items.slice(0, CANDIDATE_TARGET),
-    plan,
+    items: mergeCandidates(refined.items, CANDIDATE_TARGET, profile.preferences),
+    plan: refined.plan,
     mode: planResult.mode,
   };
 }
 
+/**
+ * Gathers for a reader-edited plan without re-planning: only queries that are
+ * new to the slot are fetched (and refined if weak), and the previous pool
+ * keeps the items whose query is still planned. Fresh results go first so the
+ * candidate cap trims the older ones.
+ */
+async function regatherCandidateContent(
+  profile: ProfileCardData,
+  plan: SourceQueryPlan,
+  previousPlan: SourceQueryPlan,
+  previousPool: CandidatePoolItem[],
+  log: StageLog,
+): Promise<CandidateContentResult> {
+  const slotOf = (item: CandidatePoolItem) => getSourceDescriptor(item.source).planSlot ?? item.source;
+  const isPlanned = (slot: QuerySlot, query: string, source: SourceQueryPlan) =>
+    (source[slot] ?? []).some(entry => entry.toLowerCase() === query.toLowerCase());
+
+  const fresh = await fetchPlannedQueries(plan, profile, (slot, query) => !isPlanned(slot, query, previousPlan));
+  const kept = previousPool.filter(item => !item.query || isPlanned(slotOf(item), item.query, plan));
+  const refined = await refineWeakQueries(profile, plan, { items: [...fresh.items, ...kept], outcomes: fresh.outcomes }, log);
+  return {
+    items: mergeCandidates(refined.items, CANDIDATE_TARGET, profile.preferences),
+    plan: refined.plan,
+    mode: 'edited',
+  };
+}
+
+function feedSources(): FeedSource[] {
+  return listConnectors().map(connector => connector.descriptor.id);
+}
+
+/**
+ * Interleaves items so every source gets its slots before any source overflows.
+ * When `perSourceCap` is omitted each source uses its descriptor cap, boosted for
+ * sources that match the profile's preferred format.
+ */
 function rebalanceFeed(
   items: FeedItem[],
-  sources: FeedItem['source'][] = ['arxiv', 'hn', 'news', 'x'],
-  perSourceCap = 3,
+  sources: FeedSource[] = feedSources(),
+  perSourceCap?: number,
+  preferences?: ProfileCardData['preferences'],
 ): FeedItem[] {
-  const buckets = new Map<FeedItem['source'], FeedItem[]>();
+  const capFor = (source: FeedSource) =>
+    perSourceCap ?? sourceBudget(getSourceDescriptor(source), preferences).perSourceCap;
+  const buckets = new Map<FeedSource, FeedItem[]>();
   const overflow: FeedItem[] = [];
   const seen = new Set<string>();
 
@@ -1485,7 +1435,7 @@ function rebalanceFeed(
   const added = new Set<string>();
   for (const source of sources) {
     const bucket = buckets.get(source) ?? [];
-    const slice = bucket.slice(0, perSourceCap);
+    const slice = bucket.slice(0, capFor(source));
     for (const item of slice) {
       if (!added.has(item.id)) {
         balanced.push(item);
@@ -1496,7 +1446,7 @@ function rebalanceFeed(
 
   for (const source of sources) {
     const bucket = buckets.get(source) ?? [];
-    for (const item of bucket.slice(perSourceCap)) {
+    for (const item of bucket.slice(capFor(source))) {
       if (!added.has(item.id)) {
         balanced.push(item);
         added.add(item.id);
@@ -1511,49 +1461,177 @@ function rebalanceFeed(
     }
   }
 
-  const chunkSize = Math.max(1, sources.length * perSourceCap);
+  const chunkSize = Math.max(1, sources.reduce((sum, source) => sum + capFor(source), 0));
   return balanced.slice(0, chunkSize);
 }
 
-function buildFallbackFeed(profile: ProfileCardData, items: CandidateContent[], name: string): FeedItem[] {
-  const selected = items.slice(0, CANDIDATE_TARGET);
-  const feed = selected.map(item => ({
+function pickMetadata(item: ItemMetadata): ItemMetadata {
+  return {
+    author: item.author,
+    discussionUrl: item.discussionUrl,
+    community: item.community,
+    engagement: item.engagement,
+    repo: item.repo,
+    hub: item.hub,
+    social: item.social,
+    video: item.video,
+    audio: item.audio,
+    paper: item.paper,
+  };
+}
+
+function toFeedItem(candidate: CandidateContent, summary: string, because: string): FeedItem {
+  return {
+    id: candidate.id,
+    source: candidate.source,
+    title: candidate.title,
+    summary,
+    because,
+    url: candidate.url,
+    date: candidate.date,
+    ...pickMetadata(candidate),
+  };
+}
+
+function toPoolItem(item: CandidateContent | FeedItem): CandidatePoolItem {
+  return {
     id: item.id,
     source: item.source,
     title: item.title,
-    summary: item.snippet,
-    because: `Matches ${firstNameFrom(name)}'s interest in ${profile.keywords[0] ?? 'the topic'}.`,
+    snippet: 'snippet' in item ? item.snippet : item.summary,
     url: item.url,
     date: item.date,
-  }));
-  return rebalanceFeed(feed);
+    query: 'query' in item ? item.query : undefined,
+    ...pickMetadata(item),
+  };
+}
+
+function leftoverFeedItems(items: CandidateContent[], selectedIds: Set<string>): FeedItem[] {
+  return items
+    .filter(candidate => !selectedIds.has(candidate.id))
+    .map(candidate => toFeedItem(candidate, candidate.snippet, `Candidate from ${candidate.source}.`));
+}
+
+/** Log-scaled community engagement; 0 for sources that report none. */
+function engagementScore(item: ItemMetadata) {
+  const engagement = item.engagement;
+  if (!engagement) return 0;
+  return (
+    Math.log1p(engagement.points ?? 0) +
+    0.5 * Math.log1p(engagement.comments ?? 0) +
+    0.5 * Math.log1p(engagement.stars ?? 0) +
+    Math.log1p(engagement.starVelocity ?? 0) +
+    0.5 * Math.log1p(engagement.citations ?? 0) +
+    Math.log1p(engagement.influentialCitations ?? 0) +
+    0.5 * Math.log1p(engagement.likes ?? 0) +
+    0.25 * Math.log1p(engagement.downloads ?? 0) +
+    0.5 * Math.log1p(engagement.reposts ?? 0)
+  );
+}
+
+function formatFeedbackExamples(examples: FeedbackExamples) {
+  const format = (entry: ItemFeedback) => `- [${entry.source}] ${entry.title} — ${truncate(entry.summary, 160)}`;
+  const sections: string[] = [];
+  if (examples.liked.length > 0) {
+    sections.push(`Liked:\n${examples.liked.map(format).join('\n')}`);
+  }
+  if (examples.disliked.length > 0) {
+    sections.push(`Dismissed or "less like this":\n${examples.disliked.map(format).join('\n')}`);
+  }
+  return sections.join('\n\n');
+}
+
+function formatEngagement(item: ItemMetadata) {
+  const engagement = item.engagement;
+  if (!engagement) return '';
+  const parts: string[] = [];
+  if (engagement.points !== undefined) parts.push(`${engagement.points} points`);
+  if (engagement.comments !== undefined) parts.push(`${engagement.comments} comments`);
+  if (engagement.stars !== undefined) parts.push(`${engagement.stars} stars`);
+  if (engagement.starVelocity !== undefined) parts.push(`~${engagement.starVelocity} stars/week`);
+  if (engagement.citations !== undefined) parts.push(`${engagement.citations} citations`);
+  if (engagement.influentialCitations !== undefined) {
+    parts.push(`${engagement.influentialCitations} influential citations`);
+  }
+  if (engagement.likes !== undefined) parts.push(`${engagement.likes} likes`);
+  if (engagement.downloads !== undefined) parts.push(`${engagement.downloads} downloads`);
+  if (engagement.reposts !== undefined) parts.push(`${engagement.reposts} reposts`);
+  return parts.join(', ');
+}
+
+/**
+ * The no-LLM ranking: the local BM25 ranker, with engagement, reader feedback
+ * and embedding similarity as a boost and a `because` line naming the matched keywords.
+ */
+function buildFallbackFeed(
+  profile: ProfileCardData,
+  items: CandidateContent[],
+  name: string,
+  examples: FeedbackExamples,
+  similarity: Map<string, number>,
+): FeedItem[] {
+  const feedbackScore = createFeedbackScorer(examples);
+  const ranked = rankLocally(profile, items, {
+    boost: item =>
+      ENGAGEMENT_WEIGHT * engagementScore(item) +
+      FEEDBACK_WEIGHT * feedbackScore(item) +
+      SIMILARITY_WEIGHT * (similarity.get(item.id) ?? 0),
+  });
+  const feed = ranked
+    .slice(0, CANDIDATE_TARGET)
+    .map(entry => toFeedItem(entry.item, entry.item.snippet, explainLocalRanking(entry, firstNameFrom(name))));
+  return rebalanceFeed(feed, feedSources(), undefined, profile.preferences);
+}
+
+/** Embedding similarity of each candidate to the profile; empty when no embedder works. */
+async function semanticRelevance(profile: ProfileCardData, items: CandidateContent[], log: StageLog) {
+  try {
+    const relevance = await scoreRelevance(profile, items);
+    log(`Scored ${items.length} candidates by similarity to the profile (${relevance.embedder}).`, 'info');
+    return relevance.scores;
+  } catch (error) {
+    console.error('[feed] semanticRelevance failed', error);
+    return new Map<string, number>();
+  }
+}
+
+/**
+ * The candidates the LLM ranker sees: the most similar item of every source,
+ * so none drops out, then the rest by similarity, at most `size` in all.
+ */
+function shortlistCandidates(items: CandidateContent[], similarity: Map<string, number>, size: number) {
+  if (similarity.size === 0 || items.length <= size) return items;
+  const sorted = [...items].sort((a, b) => (similarity.get(b.id) ?? 0) - (similarity.get(a.id) ?? 0));
+  const picked = new Set<CandidateContent>();
+  const sources = new Set<FeedSource>();
+  for (const item of sorted) {
+    if (!sources.has(item.source)) {
+      sources.add(item.source);
+      picked.add(item);
+    }
+  }
+  for (const item of sorted) {
+    if (picked.size >= size) break;
+    picked.add(item);
+  }
+  return sorted.filter(item => picked.has(item)).slice(0, size);
 }
 
 async function rankFeedItems(
   name: string,
   profile: ProfileCardData,
   items: CandidateContent[],
+  examples: FeedbackExamples,
+  log: StageLog,
 ): Promise<RankingResult> {
-  if (!openaiClient) {
-    const exploitation = buildFallbackFeed(profile, items, name);
+  const similarity = await semanticRelevance(profile, items, log);
+  if (!hasLlm('rank')) {
+    const exploitation = buildFallbackFeed(profile, items, name, examples, similarity);
     const exploitationIds = new Set(exploitation.map(item => item.id));
-    const leftovers = items
-      .filter(candidate => !exploitationIds.has(candidate.id))
-      .map(candidate => ({
-        id: candidate.id,
-        source: candidate.source,
-        title: candidate.title,
-        summary: candidate.snippet,
-        because: `Candidate from ${candidate.source}.`,
-        url: candidate.url,
-        date: candidate.date,
-      }));
+    const leftovers = leftoverFeedItems(items, exploitationIds);
     return { exploitation, leftovers };
   }
 
-  const systemPrompt =
-    'You are ranking candidate content for a personalized AI feed. Return JSON with the schema {"top":[{"id":"","score":0.0,"novelty":"","summary":"","because":""}]} using only provided candidates.';
-
   const profileBlock = JSON.stringify(profile, null, 2);
   const keywordWeights = profile.keywordWeights && profile.keywordWeights.length > 0
     ? profile.keywordWeights
@@ -1564,97 +1642,90 @@ async function rankFeedItems(
     preferences: profile.preferences,
     preference_notes: profile.preferenceNotes ?? '',
   };
-  const candidatesBlock = items
-    .map(
-      item =>
-        `ID: ${item.id}\nSource: ${item.source}\nTitle: ${item.title}\nSnippet: ${item.snippet}\nURL: ${item.url}\nDate: ${item.date}`,
-    )
+  const shortlist = shortlistCandidates(items, similarity, env.rankShortlistSize);
+  if (shortlist.length < items.length) {
+    log(`Sending the ${shortlist.length} most similar of ${items.length} candidates to the ranker.`, 'info');
+  }
+  const candidatesBlock = shortlist
+    .map(item => {
+      const engagement = formatEngagement(item);
+      const lines = [
+        `ID: ${item.id}`,
+        `Source: ${item.source}`,
+        `Title: ${item.title}`,
+        `Snippet: ${item.snippet}`,
+        `URL: ${item.url}`,
+        `Date: ${item.date}`,
+      ];
+      if (item.community) lines.push(`Community: ${item.community}`);
+      if (engagement) lines.push(`Engagement: ${engagement}`);
+      if (item.paper) {
+        const authors = item.paper.authors.slice(0, 4).join(', ');
+        const venue = [item.paper.venue, item.paper.year].filter(Boolean).join(' ');
+        lines.push(`Paper: ${[authors, venue].filter(Boolean).join(' — ')}`);
+        if (item.paper.references && item.paper.references.length > 0) {
+          lines.push(`References: ${item.paper.references.slice(0, 3).join('; ')}`);
+        }
+      }
+      if (item.social) {
+        lines.push(`Post: ${item.social.handle} at ${item.social.postedAt}`);
+      }
+      if (item.hub) {
+        lines.push(`Hub: ${[item.hub.kind, item.hub.task, ...item.hub.tags.slice(0, 5)].filter(Boolean).join(', ')}`);
+      }
+      if (item.video) {
+        const duration = item.video.durationSeconds ? `, ${Math.round(item.video.durationSeconds / 60)} min` : '';
+        lines.push(`Video: ${item.video.channel}${duration}`);
+      }
+      if (item.audio) {
+        const duration = item.audio.durationSeconds ? `, ${Math.round(item.audio.durationSeconds / 60)} min` : '';
+        lines.push(`Podcast: ${item.audio.show}${duration}`);
+      }
+      if (item.repo) {
+        lines.push(`Repo: ${[item.repo.language, ...item.repo.topics.slice(0, 5)].filter(Boolean).join(', ')}; last push ${item.repo.pushedAt.slice(0, 10)}`);
+      }
+      return lines.join('\n');
+    })
     .join('\n\n');
-
-  const userPrompt = `Profile card:
-${profileBlock}
-
-Candidates:
-${candidatesBlock}
-
-Interest signals:
-${JSON.stringify(interestSignals, null, 2)}
-
-Select up to 10 items aligned with the profile. Weight keyword matches by their weights and consider how frequently sources appear in the profile. Provide brief summaries (<=25 words) and "because" lines (<=18 words). Limit to at most three items per source and include every available source if quality permits. Use "stretch" or "core" or "comfort" for novelty. Return JSON only.`;
+  const prompt = renderPrompt(rankPrompt, {
+    profile: profileBlock,
+    candidates: candidatesBlock,
+    signals: JSON.stringify(interestSignals, null, 2),
+    feedback: formatFeedbackExamples(examples),
+  });
 
   try {
-    const response = await openaiClient.responses.create({
-      model: env.openaiModelRank,
-      temperature: 0.5,
-      input: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-    });
+    const parsed = await completeJson('rank', prompt, rankingSchema);
 
-    const text = response.output_text.trim();
-    const jsonStart = text.indexOf('{');
-    const jsonEnd = text.lastIndexOf('}');
-    if (jsonStart === -1 || jsonEnd === -1) {
-      throw new Error('Ranking JSON not found.');
-    }
-    const parsed = JSON.parse(text.slice(jsonStart, jsonEnd + 1)) as {
-      top: Array<{ id: string; summary: string; because: string }>;
-    };
-
-    const map = new Map(items.map(item => [item.id, item]));
+    const map = new Map(shortlist.map(item => [item.id, item]));
     const ranked: FeedItem[] = [];
     for (const entry of parsed.top) {
       const item = map.get(entry.id);
       if (!item) continue;
-      ranked.push({
-        id: item.id,
-        source: item.source,
-        title: item.title,
-        summary: truncate(entry.summary ?? item.snippet, 200),
-        because: truncate(
-          entry.because ?? `Matches ${firstNameFrom(name)}'s priorities.`,
-          120,
+      ranked.push(
+        toFeedItem(
+          item,
+          truncate(entry.summary ?? item.snippet, 200),
+          truncate(entry.because ?? `Matches ${firstNameFrom(name)}'s priorities.`, 120),
         ),
-        url: item.url,
-        date: item.date,
-      });
+      );
       if (ranked.length >= 10) break;
     }
 
-    const balanced = rebalanceFeed(ranked);
+    const balanced = rebalanceFeed(ranked, feedSources(), undefined, profile.preferences);
     if (balanced.length === 0) {
-      const exploitationFallback = buildFallbackFeed(profile, items, name);
+      const exploitationFallback = buildFallbackFeed(profile, items, name, examples, similarity);
       const fallbackIds = new Set(exploitationFallback.map(item => item.id));
-      const leftoversFallback = items
-        .filter(candidate => !fallbackIds.has(candidate.id))
-        .map(candidate => ({
-          id: candidate.id,
-          source: candidate.source,
-          title: candidate.title,
-          summary: candidate.snippet,
-          because: `Candidate from ${candidate.source}.`,
-          url: candidate.url,
-          date: candidate.date,
-        }));
+      const leftoversFallback = leftoverFeedItems(items, fallbackIds);
       return {
         exploitation: exploitationFallback,
         leftovers: leftoversFallback,
       };
     }
+    recordPromptVersion(prompt);
 
     const exploitationIds = new Set(balanced.map(item => item.id));
-    const leftovers = items
-      .filter(candidate => !exploitationIds.has(candidate.id))
-      .map(candidate => ({
-        id: candidate.id,
-        source: candidate.source,
-        title: candidate.title,
-        summary: candidate.snippet,
-        because: `Candidate from ${candidate.source}.`,
-        url: candidate.url,
-        date: candidate.date,
-      }));
+    const leftovers = leftoverFeedItems(items, exploitationIds);
 
     return {
       exploitation: balanced,
@@ -1662,25 +1733,408 @@ Select up to 10 items aligned with the profile. Weight keyword matches by their
     };
   } catch (error) {
     console.error('[feed] rankFeedItems failed', error);
-    const exploitation = buildFallbackFeed(profile, items, name);
+    const exploitation = buildFallbackFeed(profile, items, name, examples, similarity);
     const exploitationIds = new Set(exploitation.map(item => item.id));
-    const leftovers = items
-      .filter(candidate => !exploitationIds.has(candidate.id))
-      .map(candidate => ({
-        id: candidate.id,
-        source: candidate.source,
-        title: candidate.title,
-        summary: candidate.snippet,
-        because: `Candidate from ${candidate.source}.`,
-        url: candidate.url,
-        date: candidate.date,
-      }));
+    const leftovers = leftoverFeedItems(items, exploitationIds);
     return { exploitation, leftovers };
   }
 }
 
+interface RankedEntry {
+  id: string;
+  summary?: string;
+  because?: string;
+}
+
+interface OrchestratorState {
+  slots: PlannedSlot[];
+  profile: ProfileCardData;
+  hidden: Set<string>;
+  /** Every item a search returned, in discovery order. */
+  pool: Map<string, CandidateContent>;
+  /** The searches run so far, recorded as the run's query plan. */
+  plan: SourceQueryPlan;
+}
+
+interface ToolResult {
+  message: string;
+  level: LogLevel;
+  output: Record<string, unknown>;
+}
+
+const ORCHESTRATOR_TOOL_STAGES: Record<string, AgentState> = {
+  search_source: 'FetchCandidates',
+  harvest_url: 'HarvestPublicData',
+  read_item: 'RankAndExplain',
+  finish: 'RankAndExplain',
+};
+
+function orchestratorTools(state: OrchestratorState): OpenAI.Responses.FunctionTool[] {
+  const sourceGuide = state.slots
+    .map(({ slot }) => `- ${slot.id} (${slot.name}, at most ${slotQueryLimit(slot, state.profile.preferences)} searches): ${slot.planHint}`)
+    .join('\n');
+  return [
+    {
+      type: 'function',
+      name: 'search_source',
+      description: `Search one content source and add its results to the candidate pool. Sources:\n${sourceGuide}`,
+      strict: false,
+      parameters: {
+        type: 'object',
+        properties: {
+          source: { type: 'string', enum: state.slots.map(({ slot }) => slot.id) },
+          query: { type: 'string', description: 'Search query written for this source.' },
+          count: {
+            type: 'integer',
+            minimum: 1,
+            maximum: MAX_SEARCH_COUNT,
+            description: 'Items to fetch from each provider of the source; defaults to its usual count.',
+          },
+        },
+        required: ['source', 'query'],
+      },
+    },
+    {
+      type: 'function',
+      name: 'harvest_url',
+      description: 'Fetch a public web page, such as a profile link or a page a candidate cites, and return its readable text. Private and local addresses are refused.',
+      strict: false,
+      parameters: {
+        type: 'object',
+        properties: { url: { type: 'string', description: 'Absolute http(s) URL.' } },
+        required: ['url'],
+      },
+    },
+    {
+      type: 'function',
+      name: 'read_item',
+      description: 'Read a candidate from the pool in full: snippet, metadata, engagement and the start of its page.',
+      strict: false,
+      parameters: {
+        type: 'object',
+        properties: { id: { type: 'string', description: 'Candidate id returned by search_source.' } },
+        required: ['id'],
+      },
+    },
+    {
+      type: 'function',
+      name: 'finish',
+      description: 'End the run with the ranked feed, best first, using only candidate ids from the pool.',
+      strict: false,
+      parameters: {
+        type: 'object',
+        properties: {
+          top: {
+            type: 'array',
+            maxItems: 10,
+            items: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                summary: { type: 'string', description: 'At most 25 words.' },
+                because: { type: 'string', description: 'Why it fits the reader, at most 18 words.' },
+              },
+              required: ['id', 'summary', 'because'],
+            },
+          },
+        },
+        required: ['top'],
+      },
+    },
+  ];
+}
+
+function parseToolArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+}
+
+function rejectTool(message: string): ToolResult {
+  return { message, level: 'warning', output: { error: message } };
+}
+
+async function searchSourceTool(state: OrchestratorState, args: Record<string, unknown>): Promise<ToolResult> {
+  const planned = state.slots.find(({ slot }) => slot.id === args.source);
+  const query = typeof args.query === 'string' ? sanitizeWhitespace(args.query) : '';
+  if (!planned || !query) {
+    return rejectTool('search_source needs a known source and a query.');
+  }
+  const { slot } = planned;
+  const searches = state.plan[slot.id] ?? [];
+  const limit = slotQueryLimit(slot, state.profile.preferences);
+  if (searches.length >= limit) {
+    return rejectTool(`Search limit for ${slot.name} reached (${limit}).`);
+  }
+
+  const requested = typeof args.count === 'number' ? Math.round(args.count) : undefined;
+  const connectors = listConnectors().filter(connector => (connector.descriptor.planSlot ?? connector.descriptor.id) === slot.id);
+  const results = await Promise.allSettled(
+    connectors.map(connector => {
+      const count = Math.min(Math.max(requested ?? connector.descriptor.perQueryCount, 1), MAX_SEARCH_COUNT);
+      return connector.fetch(query, count);
+    }),
+  );
+  const items = results
+    .flatMap(result => (result.status === 'fulfilled' ? result.value : []))
+    .filter(item => !state.hidden.has(item.url))
+    .map(item => ({ ...item, query }));
+  state.plan[slot.id] = [...searches, query];
+  let added = 0;
+  for (const item of items) {
+    if (!state.pool.has(item.id)) {
+      state.pool.set(item.id, item);
+      added += 1;
+    }
+  }
+
+  return {
+    message: `search_source ${slot.name} "${query}": ${items.length} items, ${added} new to the pool.`,
+    level: items.length > 0 ? 'info' : 'warning',
+    output: {
+      items: items.map(item => ({
+        id: item.id,
+        source: item.source,
+        title: item.title,
+        snippet: truncate(item.snippet, 200),
+        date: item.date,
+        engagement: formatEngagement(item) || undefined,
+      })),
+    },
+  };
+}
+
+async function harvestUrlTool(args: Record<string, unknown>): Promise<ToolResult> {
+  const url = typeof args.url === 'string' ? args.url.trim() : '';
+  if (!/^https?:\/\//i.test(url)) {
+    return rejectTool('harvest_url needs an absolute http(s) URL.');
+  }
+  // The model picks this URL, so it may only reach public hosts.
+  const text = await extractReadableContent(url, { publicOnly: true });
+  if (!text) {
+    return rejectTool(`harvest_url could not read ${url}; it must be a public page.`);
+  }
+  return { message: `harvest_url ${url}: ${text.length} characters.`, level: 'info', output: { url, text } };
+}
+
+async function readItemTool(state: OrchestratorState, args: Record<string, unknown>): Promise<ToolResult> {
+  const item = typeof args.id === 'string' ? state.pool.get(args.id) : undefined;
+  if (!item) {
+    return rejectTool('read_item needs the id of a candidate in the pool.');
+  }
+  const page = await extractReadableContent(item.url);
+  return {
+    message: `read_item ${getSourceDescriptor(item.source).label}: ${truncate(item.title, 80)}.`,
+    level: 'info',
+    output: {
+      id: item.id,
+      source: item.source,
+      title: item.title,
+      snippet: item.snippet,
+      url: item.url,
+      date: item.date,
+      ...pickMetadata(item),
+      page: page || undefined,
+    },
+  };
+}
+
+function runOrchestratorTool(state: OrchestratorState, name: string, args: Record<string, unknown>) {
+  if (name === 'search_source') return searchSourceTool(state, args);
+  if (name === 'harvest_url') return harvestUrlTool(args);
+  if (name === 'read_item') return readItemTool(state, args);
+  return Promise.resolve(rejectTool(`Unknown tool ${name}.`));
+}
+
+function orchestratorProfile(profile: ProfileCardData) {
+  return JSON.stringify(
+    {
+      summary: profile.summary,
+      keywords: profile.keywords,
+      keyword_weights: profile.keywordWeights ?? [],
+      source_focus: profile.sourceFocus ?? {},
+      preferences: profile.preferences,
+      preference_notes: profile.preferenceNotes ?? '',
+      pinned_queries: profile.pinnedQueries ?? {},
+    },
+    null,
+    2,
+  );
+}
+
+function feedFromEntries(entries: RankedEntry[], pool: Map<string, CandidateContent>, name: string): FeedItem[] {
+  const ranked: FeedItem[] = [];
+  for (const entry of entries) {
+    const item = pool.get(entry.id);
+    if (!item || ranked.some(existing => existing.id === item.id)) continue;
+    ranked.push(
+      toFeedItem(
+        item,
+        truncate(entry.summary || item.snippet, 200),
+        truncate(entry.because || `Matches ${firstNameFrom(name)}'s priorities.`, 120),
+      ),
+    );
+    if (ranked.length >= 10) break;
+  }
+  return ranked;
+}
+
+/**
+ * Runs the model in a tool loop that replaces plan → gather → rank: it picks
+ * which sources to search and how deep to go, within hard limits on tool calls
+ * and tokens. Each call streams as a log line and moves the agent state. When
+ * the budget runs out without a `finish`, the pool it gathered is ranked as
+ * usual, and an empty pool falls back to the planned gather.
+ */
+async function orchestrateFeed(
+  controller: ReadableStreamDefaultController,
+  client: OpenAI,
+  name: string,
+  profile: ProfileCardData,
+  runId: string,
+  feedback: ItemFeedback[],
+) {
+  const examples = feedbackExamples(feedback);
+  const state: OrchestratorState = {
+    slots: plannedSlots(),
+    profile,
+    hidden: hiddenUrls(feedback),
+    pool: new Map(),
+    plan: {},
+  };
+  const budget = { toolCalls: env.orchestratorMaxToolCalls, tokens: env.orchestratorMaxTokens };
+  const tools = orchestratorTools(state);
+  let finished: RankedEntry[] | null = null;
+
+  sendEvent(controller, 'stage', { state: 'FetchCandidates' satisfies AgentState });
+  logEvent(
+    controller,
+    `Orchestrating the feed with tools (up to ${budget.toolCalls} tool calls, ${budget.tokens} tokens)…`,
+    'info',
+  );
+
+  const prompt = renderPrompt(orchestratorPrompt, {
+    firstName: firstNameFrom(name),
+    profile: orchestratorProfile(profile),
+    feedback: formatFeedbackExamples(examples),
+    toolCalls: budget.toolCalls,
+    tokens: budget.tokens,
+  });
+
+  try {
+    let response = await createResponse(client, {
+      model: env.openaiModelRank,
+      temperature: prompt.temperature,
+      tools,
+      input: [
+        { role: 'system', content: prompt.system },
+        { role: 'user', content: prompt.user },
+      ],
+    });
+    let forcedFinish = false;
+
+    while (true) {
+      budget.tokens -= response.usage?.total_tokens ?? 0;
+      const calls = response.output.filter(
+        (item): item is OpenAI.Responses.ResponseFunctionToolCall => item.type === 'function_call',
+      );
+      if (calls.length === 0) {
+        logEvent(controller, 'Orchestrator stopped without calling finish.', 'warning');
+        break;
+      }
+
+      const outputs: OpenAI.Responses.ResponseInputItem[] = [];
+      for (const call of calls) {
+        const args = parseToolArguments(call.arguments);
+        if (call.name === 'finish') {
+          sendEvent(controller, 'stage', { state: ORCHESTRATOR_TOOL_STAGES.finish });
+          finished = Array.isArray(args.top)
+            ? args.top.filter((entry): entry is RankedEntry => Boolean(entry) && typeof entry.id === 'string')
+            : [];
+          logEvent(controller, `finish: ${finished.length} ranked items.`, 'info');
+          break;
+        }
+        let result: ToolResult;
+        if (budget.toolCalls <= 0) {
+          result = rejectTool(`Tool call limit reached; skipped ${call.name}. Call finish now.`);
+        } else {
+          budget.toolCalls -= 1;
+          const stage = ORCHESTRATOR_TOOL_STAGES[call.name];
+          if (stage) {
+            sendEvent(controller, 'stage', { state: stage });
+          }
+          result = await runOrchestratorTool(state, call.name, args);
+        }
+        logEvent(controller, result.message, result.level);
+        outputs.push({
+          type: 'function_call_output',
+          call_id: call.call_id,
+          output: JSON.stringify({ ...result.output, budget: { ...budget, poolSize: state.pool.size } }),
+        });
+      }
+      if (finished) break;
+
+      if (budget.tokens <= 0) {
+        logEvent(controller, 'Orchestrator token budget exhausted.', 'warning');
+        break;
+      }
+      if (budget.toolCalls <= 0) {
+        if (forcedFinish) break;
+        forcedFinish = true;
+      }
+      response = await createResponse(client, {
+        model: env.openaiModelRank,
+        temperature: 0.3,
+        tools,
+        tool_choice: forcedFinish ? { type: 'function', name: 'finish' } : 'auto',
+        previous_response_id: response.id,
+        input: outputs,
+      });
+    }
+  } catch (error) {
+    console.error('[feed] orchestrateFeed failed', error);
+    logEvent(controller, 'Orchestrator failed; continuing with what it gathered.', 'warning');
+  }
+
+  const pool = Array.from(state.pool.values());
+  let candidateResult: CandidateContentResult = { items: pool, plan: state.plan, mode: 'agent' };
+  if (pool.length === 0) {
+    logEvent(controller, 'Orchestrator gathered no candidates; falling back to the planned gather.', 'warning');
+    const gathered = await gatherCandidateContent(profile, (message, level) => logEvent(controller, message, level));
+    candidateResult = { ...gathered, items: gathered.items.filter(item => !state.hidden.has(item.url)) };
+  } else {
+    recordPromptVersion(prompt);
+  }
+  logEvent(
+    controller,
+    `Fetched ${candidateResult.items.length} candidate items via ${planModeLabels[candidateResult.mode]}; ${env.orchestratorMaxToolCalls - budget.toolCalls} tool calls used.`,
+    'info',
+  );
+  await saveCandidatePool(controller, runId, profile, candidateResult);
+
+  sendEvent(controller, 'stage', { state: 'RankAndExplain' satisfies AgentState });
+  const ranked = finished && pool.length > 0 ? feedFromEntries(finished, state.pool, name) : [];
+  const exploitation = rebalanceFeed(ranked, feedSources(), undefined, profile.preferences);
+  let ranking: RankingResult;
+  if (exploitation.length > 0) {
+    ranking = {
+      exploitation,
+      leftovers: leftoverFeedItems(pool, new Set(exploitation.map(item => item.id))),
+    };
+  } else {
+    logEvent(controller, 'Ranking & explaining (LLM)…', 'info');
+    ranking = await rankFeedItems(name, profile, candidateResult.items, examples, (message, level) =>
+      logEvent(controller, message, level),
+    );
+  }
+  await publishFeed(controller, profile, runId, ranking);
+}
+
 async function createDeepenDigest(profile: ProfileCardData, item: FeedItem, name: string): Promise<DeepenDigest> {
-  if (!openaiClient) {
+  if (!hasLlm('deepen')) {
     return {
       tldr: cutText(`${item.title}: ${item.summary}`, 160),
       why_me: `It aligns with ${firstNameFrom(name)}'s profile.`,
@@ -1692,36 +2146,12 @@ async function createDeepenDigest(profile: ProfileCardData, item: FeedItem, name
     };
   }
 
-  const userPrompt = `Profile card:
-${JSON.stringify(profile, null, 2)}
-
-Feed item:
-${JSON.stringify(item, null, 2)}
-
-Produce JSON with keys tldr (<=40 words), why_me (<=20 words), next_actions (3 concise imperatives).`;
-
   try {
-    const response = await openaiClient.responses.create({
-      model: env.openaiModelDeepen,
-      temperature: 0.2,
-      input: [
-        {
-          role: 'system',
-          content: 'You craft tailored digests for the user. Return JSON only, no prose.',
-        },
-        {
-          role: 'user',
-          content: userPrompt,
-        },
-      ],
-    });
-    const text = response.output_text.trim();
-    const jsonStart = text.indexOf('{');
-    const jsonEnd = text.lastIndexOf('}');
-    if (jsonStart === -1 || jsonEnd === -1) {
-      throw new Error('Deepen JSON not found.');
-    }
-    const parsed = JSON.parse(text.slice(jsonStart, jsonEnd + 1)) as DeepenDigest;
+    const parsed = await completeJson(
+      'deepen',
+      renderPrompt(deepenPrompt, { profile: JSON.stringify(profile, null, 2), item: JSON.stringify(item, null, 2) }),
+      deepenSchema,
+    );
     return parsed;
   } catch {
     return {
@@ -1736,15 +2166,6 @@ Produce JSON with keys tldr (<=40 words), why_me (<=20 words), next_actions (3 c
   }
 }
 
-function cleanupFeedCache() {
-  const now = Date.now();
-  for (const [key, entry] of feedCache.entries()) {
-    if (entry.expires < now) {
-      feedCache.delete(key);
-    }
-  }
-}
-
 async function handleDiscover(controller: ReadableStreamDefaultController, name: string) {
   sendEvent(controller, 'stage', { state: 'DiscoverCandidates' satisfies AgentState });
   logEvent(controller, `Searching public web for "${name}"…`, 'info');
@@ -1770,8 +2191,10 @@ async function handleDiscover(controller: ReadableStreamDefaultController, name:
       'warning',
     );
   }
+  const session = await getStore().createDiscoverySession(name, discovery.candidates);
   sendEvent(controller, 'candidates', {
     candidates: discovery.candidates,
+    sessionToken: session.token,
     meta: {
       mode: discovery.mode,
       searchResults: discovery.searchResults,
@@ -1784,28 +2207,172 @@ async function handleDiscover(controller: ReadableStreamDefaultController, name:
 
 async function handleRun(
   controller: ReadableStreamDefaultController,
-  name: string,
   candidateId: string | undefined,
+  sessionToken: string | undefined,
+  lens: ProfileLens,
 ) {
   if (!candidateId) {
     sendEvent(controller, 'error', { message: 'Candidate confirmation is required.' });
     return;
   }
+  if (!sessionToken) {
+    sendEvent(controller, 'error', { message: 'Discovery session is required. Run discovery first.' });
+    return;
+  }
 
-  const discovery = await discoverCandidates(name);
-  const candidates = discovery.candidates;
-  const confirmed = candidates.find(candidate => candidate.id === candidateId) ?? candidates[0];
+  // Confirm from the stored candidate set: discovery is not deterministic, so re-running it could drop or reshuffle candidates.
+  const session = await getStore().getDiscoverySession(sessionToken);
+  if (!session) {
+    sendEvent(controller, 'error', { message: 'Discovery session expired or unknown. Run discovery again.' });
+    return;
+  }
+  const confirmed = session.candidates.find(candidate => candidate.id === candidateId);
   if (!confirmed) {
-    sendEvent(controller, 'error', { message: 'Unable to confirm candidate. Try the discovery step again.' });
+    sendEvent(controller, 'error', { message: 'Selected candidate is not part of this discovery session. Run discovery again.' });
     return;
   }
 
+  // The name is the one the candidates were discovered for, so the saved profile cannot be filed under another.
+  const run = await getStore().createRun(session.name, confirmed);
+  sendEvent(controller, 'run', { runId: run.id, profileId: run.profileId });
+  await trackRun(controller, run.id, () => runFeedPipeline(controller, session.name, confirmed, run, lens));
+}
+
+/**
+ * Loads a saved profile and goes straight to fetching and ranking, skipping
+ * discovery and harvesting. With an edit (the `rerun` phase), the edited card
+ * replaces the saved one first.
+ */
+async function handleRefresh(
+  controller: ReadableStreamDefaultController,
+  profileId: string,
+  edit?: Partial<ProfileCardData>,
+) {
+  const store = getStore();
+  const saved = await store.getProfile(profileId);
+  if (!saved) {
+    sendEvent(controller, 'error', { message: 'Saved profile not found.' });
+    return;
+  }
+
+  const baseProfile = edit ? applyProfileEdit(saved.profile, edit) : saved.profile;
+  logEvent(
+    controller,
+    edit
+      ? `Re-running ${saved.name}'s feed with the edited profile; skipping discovery and harvest.`
+      : `Loaded saved profile for ${saved.name}; skipping discovery and harvest.`,
+    'success',
+  );
+  const run = await store.createRun(saved.name, saved.candidate);
+  sendEvent(controller, 'run', { runId: run.id, profileId: run.profileId });
+  const feedback = await store.listFeedback(saved.id);
+  const tunedProfile = tuneProfile(controller, baseProfile, feedback);
+  sendEvent(controller, 'profile', { profileCard: tunedProfile });
+
+  await trackRun(controller, run.id, async () => {
+    await store.updateRun(run.id, { profile: tunedProfile });
+    await store.saveProfile(saved.name, saved.candidate, baseProfile, run.id);
+    await deliverFeed(controller, saved.name, tunedProfile, run.id, feedback);
+  });
+}
+
+/**
+ * The saved card stays as built; feedback is replayed onto a copy for each run.
+ * An edited card was tuned by hand from what the reader saw, so only newer feedback is replayed onto it.
+ */
+function tuneProfile(controller: ReadableStreamDefaultController, profile: ProfileCardData, feedback: ItemFeedback[]) {
+  const editedAt = profile.editedAt;
+  const pending = editedAt ? feedback.filter(entry => entry.createdAt > editedAt) : feedback;
+  if (pending.length > 0) {
+    logEvent(controller, `Applied ${pending.length} feedback signals to keyword and source weights.`, 'info');
+  }
+  return applyFeedback(profile, pending);
+}
+
+/**
+ * Re-runs a finished run with a reader-edited query plan: planning is skipped,
+ * only queries new to the plan are fetched, and their results are merged into
+ * that run's pool before ranking again. Pins are saved to the profile.
+ */
+async function handleReplan(
+  controller: ReadableStreamDefaultController,
+  runId: string,
+  edit: SourceQueryPlan,
+  pins: SourceQueryPlan,
+) {
+  const store = getStore();
+  const previous = await store.getRun(runId);
+  if (!previous?.profile || !previous.plan || !previous.pool) {
+    sendEvent(controller, 'error', { message: 'That run has no query plan to edit. Run the feed again.' });
+    return;
+  }
+  const saved = await store.getProfile(previous.profileId);
+  if (!saved) {
+    sendEvent(controller, 'error', { message: 'Saved profile not found.' });
+    return;
+  }
+
+  const { plan, pinnedQueries } = sanitizeEditedPlan(previous.profile, edit, pins);
+  const profile: ProfileCardData = { ...previous.profile, pinnedQueries };
+  const { plan: previousPlan, pool: previousPool } = previous;
+  logEvent(controller, `Re-fetching the edited query plan for ${saved.name}; skipping discovery, harvest and planning.`, 'success');
+  const run = await store.createRun(saved.name, saved.candidate);
+  sendEvent(controller, 'run', { runId: run.id, profileId: run.profileId });
+  sendEvent(controller, 'profile', { profileCard: profile });
+  const feedback = await store.listFeedback(saved.id);
+
+  await trackRun(controller, run.id, async () => {
+    await store.updateRun(run.id, { profile });
+    await store.saveProfile(saved.name, saved.candidate, { ...saved.profile, pinnedQueries }, run.id);
+    await deliverFeed(controller, saved.name, profile, run.id, feedback, log =>
+      regatherCandidateContent(profile, plan, previousPlan, previousPool, log),
+    );
+  });
+}
+
+/**
+ * Runs the task under a fresh run budget, so LLM and HTTP calls past a limit fail
+ * into their fallbacks. A run the task leaves unpublished, because it threw or
+ * the reader closed the stream mid-run, is marked as failed rather than left
+ * running; errors are rethrown for the stream's error event.
+ */
+async function trackRun(controller: ReadableStreamDefaultController, runId: string, task: () => Promise<void>) {
+  const budget = createRunBudget(undefined, resource =>
+    logEvent(controller, `Run ${budgetLabels[resource]} budget exhausted; falling back where calls are refused.`, 'warning'),
+  );
+  let failure: unknown;
+  try {
+    await withRunBudget(budget, () => withPromptLog(task));
+  } catch (error) {
+    failure = error;
+    throw error;
+  } finally {
+    const run = await getStore().getRun(runId);
+    if (run?.status === 'running') {
+      await getStore().updateRun(runId, {
+        status: 'error',
+        error: failure instanceof Error ? failure.message : 'Run stopped before it finished.',
+      });
+    }
+  }
+}
+
+/** Harvest → profile for a confirmed candidate, then the shared feed stages; each stage is persisted to the run. */
+async function runFeedPipeline(
+  controller: ReadableStreamDefaultController,
+  name: string,
+  confirmed: CandidateProfile,
+  run: FeedRun,
+  lens: ProfileLens,
+) {
+  const store = getStore();
+  const runId = run.id;
   const identitySeed = new Set<string>([confirmed.profileUrl, ...(confirmed.supportUrls ?? [])]);
 
   sendEvent(controller, 'stage', { state: 'ResolveEntities' satisfies AgentState });
   logEvent(controller, `Confirmed ${sourceBadges[confirmed.source]}:${confirmed.profileUrl}.`, 'success');
 
-  logEvent(controller, 'Resolving linked identities (website, Scholar, X)…', 'info');
+  logEvent(controller, 'Resolving linked identities (website, Scholar, X, Hugging Face)…', 'info');
   const identities = await resolveIdentities(confirmed.profileUrl);
   identities.identities.forEach(url => identitySeed.add(url));
   identitySeed.add(identities.core);
@@ -1815,71 +2382,146 @@ async function handleRun(
   logEvent(controller, 'Harvesting public data…', 'info');
   const snippets = await harvestIdentities(name, Array.from(identitySeed));
   logEvent(controller, `Harvested ${snippets.length} documents.`, 'success');
+  await store.updateRun(runId, { snippets });
 
   sendEvent(controller, 'stage', { state: 'BuildProfile' satisfies AgentState });
-  logEvent(controller, 'Summarizing to profile (LLM)…', 'info');
-  const profileCard = await buildProfileCard(name, snippets);
+  logEvent(controller, `Summarizing to profile (LLM, ${lens} lens)…`, 'info');
+  const profileCard = await buildProfileCard(name, snippets, lens);
   const sourceSignals = computeSourceSignals(snippets);
   const augmentation = await augmentProfileSignals(name, profileCard, snippets, sourceSignals);
   const mergedKeywords = dedupeStrings([
     ...profileCard.keywords,
     ...augmentation.keywordWeights.map(entry => entry.keyword),
   ], 12);
-  const enrichedProfile: ProfileCardData = {
+  const builtProfile: ProfileCardData = {
     ...profileCard,
     keywords: mergedKeywords,
     keywordWeights: augmentation.keywordWeights,
     sourceFocus: augmentation.sourceFocus,
     preferenceNotes: augmentation.preferenceNotes,
     queries: augmentation.additionalQueries,
+    promptVersions: augmentation.promptVersion
+      ? { ...profileCard.promptVersions, [profileSignalsPrompt.id]: augmentation.promptVersion }
+      : profileCard.promptVersions,
   };
+  const saved = await store.getProfile(run.profileId);
+  const enrichedProfile = keepReaderEdits(builtProfile, saved?.profile);
   logEvent(
     controller,
     `Profile card ready. Signals enriched via ${augmentation.mode === 'llm' ? 'LLM' : 'heuristic'} augmentation.`,
     'success',
   );
-  sendEvent(controller, 'profile', { profileCard: enrichedProfile });
+  const feedback = await store.listFeedback(run.profileId);
+  const tunedProfile = tuneProfile(controller, enrichedProfile, feedback);
+  sendEvent(controller, 'profile', { profileCard: tunedProfile });
+  await store.updateRun(runId, { profile: tunedProfile });
+  await store.saveProfile(name, confirmed, enrichedProfile, runId);
+
+  await deliverFeed(controller, name, tunedProfile, runId, feedback);
+}
+
+/**
+ * Plan → gather → rank for a profile card, shared by full runs and saved-profile refreshes.
+ * Without a custom `gather`, `FEED_PIPELINE=orchestrator` hands these stages to the tool-calling orchestrator.
+ */
+async function deliverFeed(
+  controller: ReadableStreamDefaultController,
+  name: string,
+  enrichedProfile: ProfileCardData,
+  runId: string,
+  feedback: ItemFeedback[],
+  gather?: (log: StageLog) => Promise<CandidateContentResult>,
+) {
+  if (!gather && env.feedPipeline === 'orchestrator') {
+    if (openaiClient) {
+      await orchestrateFeed(controller, openaiClient, name, enrichedProfile, runId, feedback);
+      return;
+    }
+    logEvent(controller, 'Orchestrator mode needs an OpenAI key; running the linear pipeline.', 'warning');
+  }
 
   sendEvent(controller, 'stage', { state: 'FetchCandidates' satisfies AgentState });
-  logEvent(controller, 'Fetching candidates (arXiv/HN/News)…', 'info');
-  const candidateResult = await gatherCandidateContent(enrichedProfile);
-  const candidateContent = candidateResult.items;
+  logEvent(
+    controller,
+    `Fetching candidates (${listConnectors().map(connector => connector.descriptor.label).join('/')})…`,
+    'info',
+  );
+  const collect = gather ?? (log => gatherCandidateContent(enrichedProfile, log));
+  const candidateResult = await collect((message, level) => logEvent(controller, message, level));
+  const hidden = hiddenUrls(feedback);
+  const candidateContent = candidateResult.items.filter(item => !hidden.has(item.url));
+  if (candidateContent.length < candidateResult.items.length) {
+    logEvent(controller, `Skipped ${candidateResult.items.length - candidateContent.length} dismissed items.`, 'info');
+  }
   const planPreview = Object.entries(candidateResult.plan)
     .map(([key, value]) => `${key}:${value.slice(0, 2).join(' | ')}`)
     .join(' · ');
-  const modeLabel = candidateResult.mode === 'llm' ? 'LLM query plan' : 'keyword fallback plan';
   logEvent(
     controller,
-    `Fetched ${candidateContent.length} candidate items via ${modeLabel}${planPreview ? ` (${planPreview})` : ''}.`,
+    `Fetched ${candidateContent.length} candidate items via ${planModeLabels[candidateResult.mode]}${planPreview ? ` (${planPreview})` : ''}.`,
     'info',
   );
-  const candidatePoolItems = candidateContent.map(item => ({
-    id: item.id,
-    source: item.source,
-    title: item.title,
-    snippet: item.snippet,
-    url: item.url,
-    date: item.date,
-  }));
+  await saveCandidatePool(controller, runId, enrichedProfile, { ...candidateResult, items: candidateContent });
+
+  sendEvent(controller, 'stage', { state: 'RankAndExplain' satisfies AgentState });
+  logEvent(controller, 'Ranking & explaining (LLM)…', 'info');
+  const ranking = await rankFeedItems(name, enrichedProfile, candidateContent, feedbackExamples(feedback), (message, level) =>
+    logEvent(controller, message, level),
+  );
+  await publishFeed(controller, enrichedProfile, runId, ranking);
+}
+
+/** Persists the run's plan and candidate pool and streams the pool to the client. */
+async function saveCandidatePool(
+  controller: ReadableStreamDefaultController,
+  runId: string,
+  profile: ProfileCardData,
+  result: CandidateContentResult,
+) {
+  const candidatePoolItems = result.items.map(toPoolItem);
+  await getStore().updateRun(runId, {
+    plan: result.plan,
+    planMode: result.mode,
+    pool: candidatePoolItems,
+  });
   sendEvent(controller, 'candidate_pool', {
     items: candidatePoolItems,
-    plan: candidateResult.plan,
-    mode: candidateResult.mode,
+    plan: result.plan,
+    mode: result.mode,
+    limits: Object.fromEntries(
+      plannedSlots().map(({ slot }) => [slot.id, slotQueryLimit(slot, profile.preferences)]),
+    ),
   });
+}
 
-  sendEvent(controller, 'stage', { state: 'RankAndExplain' satisfies AgentState });
-  logEvent(controller, 'Ranking & explaining (LLM)…', 'info');
-  const ranking = await rankFeedItems(name, enrichedProfile, candidateContent);
+function formatBudgetUsage(usage: BudgetUsage) {
+  const seconds = (ms: number) => `${Math.round(ms / 1000)}s`;
+  return [
+    `${usage.llmCalls.used}/${usage.llmCalls.limit} LLM calls`,
+    `${usage.inputTokens.used}/${usage.inputTokens.limit} input tokens`,
+    `${usage.outputTokens.used}/${usage.outputTokens.limit} output tokens`,
+    `${usage.httpRequests.used}/${usage.httpRequests.limit} HTTP requests`,
+    `${seconds(usage.wallClockMs.used)}/${seconds(usage.wallClockMs.limit)}`,
+  ].join(', ');
+}
+
+/** Splits a ranking into exploit and explore picks, streams the feed and completes the run. */
+async function publishFeed(
+  controller: ReadableStreamDefaultController,
+  profile: ProfileCardData,
+  runId: string,
+  ranking: RankingResult,
+) {
   const exploitation = ranking.exploitation.slice(0, 8);
   const exploitationIds = new Set(exploitation.map(item => item.id));
   const explorationCandidates = ranking.leftovers.filter(item => !exploitationIds.has(item.id));
-  const exploration = rebalanceFeed(explorationCandidates, ['arxiv', 'hn', 'news', 'x'], 1).slice(0, 2);
+  const exploration = rebalanceFeed(explorationCandidates, feedSources(), 1).slice(0, 2);
   const explorationIds = new Set(exploration.map(item => item.id));
   const coreFeedPool = [
     ...exploitation,
     ...explorationCandidates.filter(item => !explorationIds.has(item.id)),
   ];
-  const combinedFeed = rebalanceFeed(coreFeedPool, ['arxiv', 'hn', 'news', 'x'], 3).slice(0, 10);
+  const combinedFeed = rebalanceFeed(coreFeedPool, feedSources(), undefined, profile.preferences).slice(0, 10);
   const combinedIds = new Set(combinedFeed.map(item => item.id));
   const remainingPool = ranking.leftovers.filter(
     item => !combinedIds.has(item.id) && !explorationIds.has(item.id),
@@ -1895,23 +2537,21 @@ async function handleRun(
     exploitationCount: exploitation.length,
     explorationCount: exploration.length,
     explorationItems: exploration,
-    remaining: remainingPool.map(item => ({
-      id: item.id,
-      source: item.source,
-      title: item.title,
-      snippet: item.summary,
-      url: item.url,
-      date: item.date,
-    })),
+    remaining: remainingPool.map(toPoolItem),
   });
 
-  cleanupFeedCache();
-  const expiry = Date.now() + FEED_CACHE_TTL;
-  for (const item of [...combinedFeed, ...exploration]) {
-    feedCache.set(item.id, { item, profile: enrichedProfile, name, expires: expiry });
-  }
+  await getStore().updateRun(runId, {
+    feed: combinedFeed,
+    exploration,
+    promptVersions: recordedPromptVersions(),
+    status: 'complete',
+  });
 
-  sendEvent(controller, 'complete', { message: 'Run complete.' });
+  const budget = currentBudget()?.usage();
+  if (budget) {
+    logEvent(controller, `Budget used: ${formatBudgetUsage(budget)}.`, 'info');
+  }
+  sendEvent(controller, 'complete', { message: 'Run complete.', runId, budget });
 }
 
 export async function POST(request: NextRequest) {
@@ -1919,23 +2559,66 @@ export async function POST(request: NextRequest) {
   const body = await request.json().catch(() => ({}));
   const name: string | undefined = body.name;
   const candidateId: string | undefined = body.candidateId;
+  const profileId: string | undefined = body.profileId;
+  const sessionToken: string | undefined = body.sessionToken;
+  const profile: Partial<ProfileCardData> | undefined =
+    body.profile && typeof body.profile === 'object' ? body.profile : undefined;
+  const runId: string | undefined = body.runId;
+  const plan: SourceQueryPlan | undefined = body.plan && typeof body.plan === 'object' ? body.plan : undefined;
+  const pinnedQueries: SourceQueryPlan =
+    body.pinnedQueries && typeof body.pinnedQueries === 'object' ? body.pinnedQueries : {};
+  const lens = body.lens ?? (isProfileLens(env.profileLens) ? env.profileLens : DEFAULT_PROFILE_LENS);
 
-  if (!name || !name.trim()) {
-    return new Response(JSON.stringify({ error: 'Name is required.' }), {
-      status: 400,
-      headers: { 'Content-Type': 'application/json' },
-    });
+  if (!isProfileLens(lens)) {
+    return json({ error: `lens must be one of ${profileLenses().map(entry => entry.id).join(', ')}.` }, 400);
+  }
+
+  if (body.profileId !== undefined && typeof body.profileId !== 'string') {
+    return json({ error: 'profileId must be a string.' }, 400);
+  }
+
+  if (body.sessionToken !== undefined && typeof body.sessionToken !== 'string') {
+    return json({ error: 'sessionToken must be a string.' }, 400);
+  }
+
+  if (body.runId !== undefined && typeof body.runId !== 'string') {
+    return json({ error: 'runId must be a string.' }, 400);
+  }
+
+  if ((phase === 'refresh' || phase === 'rerun') && !profileId) {
+    return json({ error: 'profileId is required.' }, 400);
+  }
+
+  if (phase === 'rerun' && !profile) {
+    return json({ error: 'profile is required.' }, 400);
+  }
+
+  if (phase === 'replan' && (!runId || !plan)) {
+    return json({ error: 'runId and plan are required.' }, 400);
   }
 
-  const normalizedName = name.trim();
+  if (phase === 'discover' && (!name || !name.trim())) {
+    return json({ error: 'Name is required.' }, 400);
+  }
+
+  const normalizedName = name?.trim() ?? '';
 
   const stream = new ReadableStream({
     async start(controller) {
       try {
         if (phase === 'discover') {
           await handleDiscover(controller, normalizedName);
+          return;
+        }
+        await prepareConnectors();
+        if (phase === 'refresh') {
+          await handleRefresh(controller, profileId as string);
+        } else if (phase === 'rerun') {
+          await handleRefresh(controller, profileId as string, profile);
+        } else if (phase === 'replan') {
+          await handleReplan(controller, runId as string, plan as SourceQueryPlan, pinnedQueries);
         } else {
-          await handleRun(controller, normalizedName, candidateId);
+          await handleRun(controller, candidateId, sessionToken, lens);
         }
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
@@ -1961,37 +2644,19 @@ export async function GET(request: NextRequest) {
   const name = searchParams.get('name') ?? 'You';
 
   if (!itemId) {
-    return new Response(JSON.stringify({ error: 'itemId is required.' }), {
-      status: 400,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return json({ error: 'itemId is required.' }, 400);
   }
 
-  cleanupFeedCache();
-  const entry = feedCache.get(itemId);
+  const entry = await getStore().getFeedItem(itemId);
 
   if (!entry) {
-    return new Response(JSON.stringify({ error: 'Feed item expired or unknown.' }), {
-      status: 404,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return json({ error: 'Feed item unknown.' }, 404);
   }
 
   try {
     const digest = await createDeepenDigest(entry.profile, entry.item, name);
-    return new Response(JSON.stringify(digest), {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' },
-    });
+    return json(digest);
   } catch (error) {
-    return new Response(
-      JSON.stringify({
-        error: error instanceof Error ? error.message : 'Deepen digest failed.',
-      }),
-      {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' },
-      },
-    );
+    return json({ error: error instanceof Error ? error.message : 'Deepen digest failed.' }, 500);
   }
 }
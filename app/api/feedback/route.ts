@@ -0,0 +1,59 @@
+import { NextRequest } from 'next/server';
+import { json } from '../../../lib/json-response';
+import { getStore } from '../../../lib/storage';
+import type { FeedbackAction } from '../../../types';
+
+const ACTIONS: FeedbackAction[] = ['like', 'dismiss', 'less'];
+
+function isFeedbackAction(value: unknown): value is FeedbackAction {
+  return ACTIONS.includes(value as FeedbackAction);
+}
+
+export async function GET(request: NextRequest) {
+  const profileId = request.nextUrl.searchParams.get('profileId');
+  if (!profileId) {
+    return json({ error: 'profileId is required.' }, 400);
+  }
+  return json({ feedback: await getStore().listFeedback(profileId) });
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const itemId: unknown = body.itemId;
+  const runId: unknown = body.runId;
+  const profileId: unknown = body.profileId;
+  const action: unknown = body.action;
+  if (typeof itemId !== 'string' || !itemId || typeof runId !== 'string' || !runId) {
+    return json({ error: 'itemId and runId are required.' }, 400);
+  }
+  if (profileId !== undefined && typeof profileId !== 'string') {
+    return json({ error: 'profileId must be a string.' }, 400);
+  }
+  if (!isFeedbackAction(action)) {
+    return json({ error: `action must be one of ${ACTIONS.join(', ')}.` }, 400);
+  }
+
+  // Item ids repeat across profiles, so the item is looked up in the run that showed it and feedback lands on that run's profile.
+  const store = getStore();
+  const entry = await store.getFeedItem(itemId, runId);
+  if (!entry) {
+    return json({ error: 'Feed item is not part of this run.' }, 404);
+  }
+  if (profileId && profileId !== entry.profileId) {
+    return json({ error: 'Run belongs to a different profile.' }, 400);
+  }
+  if (!(await store.getProfile(entry.profileId))) {
+    return json({ error: 'Saved profile not found.' }, 404);
+  }
+  const feedback = await store.recordFeedback({
+    profileId: entry.profileId,
+    itemId,
+    url: entry.item.url,
+    title: entry.item.title,
+    summary: entry.item.summary,
+    source: entry.item.source,
+    action,
+    createdAt: new Date().toISOString(),
+  });
+  return json({ feedback });
+}
@@ -0,0 +1,22 @@
+import { NextRequest } from 'next/server';
+import { buildFeedHistory } from '../../../lib/history';
+import { json } from '../../../lib/json-response';
+import { getStore } from '../../../lib/storage';
+
+const HISTORY_RUN_LIMIT = 30;
+
+export async function GET(request: NextRequest) {
+  const profileId = request.nextUrl.searchParams.get('profileId');
+  if (!profileId) {
+    return json({ error: 'profileId is required.' }, 400);
+  }
+  const store = getStore();
+  const profile = await store.getProfile(profileId);
+  if (!profile) {
+    return json({ error: 'Saved profile not found.' }, 404);
+  }
+  // History only diffs completed runs, so filter before the limit; one extra run
+  // gives the oldest listed run a baseline to diff against.
+  const runs = await store.listProfileRuns(profileId, HISTORY_RUN_LIMIT + 1, 'complete');
+  return json({ profile, history: buildFeedHistory(runs).slice(0, HISTORY_RUN_LIMIT) });
+}
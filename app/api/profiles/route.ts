@@ -0,0 +1,19 @@
+import { NextRequest } from 'next/server';
+import { json } from '../../../lib/json-response';
+import { getStore } from '../../../lib/storage';
+
+export async function GET() {
+  return json({ profiles: await getStore().listProfiles() });
+}
+
+export async function DELETE(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get('id');
+  if (!id) {
+    return json({ error: 'id is required.' }, 400);
+  }
+  const store = getStore();
+  if (!(await store.deleteProfile(id))) {
+    return json({ error: 'Saved profile not found.' }, 404);
+  }
+  return json({ profiles: await store.listProfiles() });
+}
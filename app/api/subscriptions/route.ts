@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import { isPublicUrl } from '../../../lib/http';
+import { json } from '../../../lib/json-response';
+import { addSubscription, listSubscriptions, removeSubscription } from '../../../lib/subscriptions';
+
+export async function GET() {
+  return json({ subscriptions: await listSubscriptions() });
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const url: unknown = body.url;
+  const title = typeof body.title === 'string' ? body.title : undefined;
+
+  if (typeof url !== 'string' || !url.trim()) {
+    return json({ error: 'Feed URL is required.' }, 400);
+  }
+  if (!(await isPublicUrl(url.trim()))) {
+    return json({ error: 'Feed URL must be an http(s) URL on a public host.' }, 400);
+  }
+
+  try {
+    const subscription = await addSubscription(url, title);
+    return json({ subscription, subscriptions: await listSubscriptions() }, 201);
+  } catch (error) {
+    return json({ error: error instanceof Error ? error.message : 'Unable to subscribe to feed.' }, 422);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const id = request.nextUrl.searchParams.get('id');
+  if (!id) {
+    return json({ error: 'id is required.' }, 400);
+  }
+  if (!(await removeSubscription(id))) {
+    return json({ error: 'Subscription not found.' }, 404);
+  }
+  return json({ subscriptions: await listSubscriptions() });
+}
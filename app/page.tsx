@@ -9,18 +9,28 @@ import { HarvestSkeleton } from '../components/harvest-skeleton';
 import { ProfileCard } from '../components/profile-card';
 import { NameInput } from '../components/name-input';
 import { CandidatePool } from '../components/candidate-pool';
+import { SubscriptionManager } from '../components/subscription-manager';
+import { CommunityPins } from '../components/community-pins';
+import { SavedProfiles } from '../components/saved-profiles';
+import { FeedHistory } from '../components/feed-history';
+import { QueryPlan } from '../components/query-plan';
 import {
   AgentState,
   CandidateProfile,
   DeepenDigest,
   CandidatePoolItem,
   FeedItem,
+  FeedbackAction,
   LogEntry,
   LogLevel,
+  PlanMode,
   ProfileCardData,
+  ProfileLens,
+  SavedProfile,
+  SourceQueryPlan,
 } from '../types';
 
-type Phase = 'discover' | 'run';
+type Phase = 'discover' | 'run' | 'refresh' | 'rerun' | 'replan';
 
 interface StreamPayload {
   type: string;
@@ -52,7 +62,14 @@ export default function Home() {
   const [explorationItems, setExplorationItems] = useState<FeedItem[]>([]);
   const [candidatePool, setCandidatePool] = useState<CandidatePoolItem[]>([]);
   const [remainingItems, setRemainingItems] = useState<CandidatePoolItem[]>([]);
-  const [planMeta, setPlanMeta] = useState<{ mode: string; plan: Record<string, string[]> } | null>(null);
+  const [planMeta, setPlanMeta] = useState<{ mode: PlanMode; plan: SourceQueryPlan; limits: Record<string, number> } | null>(null);
+  const [profilesVersion, setProfilesVersion] = useState(0);
+  const [sessionToken, setSessionToken] = useState<string | null>(null);
+  const [lens, setLens] = useState<ProfileLens | ''>('');
+  const [historyProfile, setHistoryProfile] = useState<SavedProfile | null>(null);
+  const [itemFeedback, setItemFeedback] = useState<Record<string, FeedbackAction>>({});
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [activeRunId, setActiveRunId] = useState<string | null>(null);
 
   const [drawerItem, setDrawerItem] = useState<FeedItem | null>(null);
   const [drawerDigest, setDrawerDigest] = useState<DeepenDigest | null>(null);
@@ -87,11 +104,17 @@ export default function Home() {
         case 'candidates': {
           const candidatePayload = Array.isArray(payload.candidates) ? payload.candidates : [];
           setCandidates(candidatePayload as CandidateProfile[]);
+          setSessionToken(typeof payload.sessionToken === 'string' ? payload.sessionToken : null);
           if (candidatePayload.length === 0) {
             setError('No confident identity found. Provide a GitHub handle or public bio snippet.');
           }
           break;
         }
+        case 'run': {
+          setActiveRunId(typeof payload.runId === 'string' ? payload.runId : null);
+          setActiveProfileId(typeof payload.profileId === 'string' ? payload.profileId : null);
+          break;
+        }
         case 'profile': {
           setProfileCard(payload.profileCard as ProfileCardData);
           break;
@@ -102,15 +125,17 @@ export default function Home() {
           const remaining = Array.isArray(payload.remaining) ? (payload.remaining as CandidatePoolItem[]) : [];
           setFeedItems(items.slice(0, 10));
           setExplorationItems(exploration);
+          setItemFeedback({});
           setRemainingItems(remaining);
           break;
         }
         case 'candidate_pool': {
           const poolItems = Array.isArray(payload.items) ? (payload.items as CandidatePoolItem[]) : [];
-          const plan = (payload.plan as Record<string, string[]>) ?? {};
-          const mode = (payload.mode as string) ?? 'fallback';
+          const plan = (payload.plan as SourceQueryPlan) ?? {};
+          const mode = (payload.mode as PlanMode) ?? 'fallback';
+          const limits = (payload.limits as Record<string, number>) ?? {};
           setCandidatePool(poolItems);
-          setPlanMeta({ mode, plan });
+          setPlanMeta({ mode, plan, limits });
           break;
         }
         case 'error': {
@@ -129,6 +154,7 @@ export default function Home() {
             setIsDiscovering(false);
           } else {
             setIsRunning(false);
+            setProfilesVersion((version) => version + 1);
           }
           break;
         }
@@ -205,7 +231,7 @@ export default function Home() {
   );
 
   const startRun = useCallback(
-    async (targetName: string, candidateId: string) => {
+    async (targetName: string, candidateId: string, token: string, profileLens: ProfileLens | '') => {
       setIsRunning(true);
       try {
         const response = await fetch('/api/feed?phase=run', {
@@ -213,7 +239,7 @@ export default function Home() {
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({ name: targetName, candidateId }),
+          body: JSON.stringify({ name: targetName, candidateId, sessionToken: token, lens: profileLens || undefined }),
         });
         if (!response.ok) {
           throw new Error('Failed to run harvesting pipeline.');
@@ -230,6 +256,84 @@ export default function Home() {
     [appendLog, readStream],
   );
 
+  const startRefresh = useCallback(
+    async (profileId: string) => {
+      setIsRunning(true);
+      try {
+        const response = await fetch('/api/feed?phase=refresh', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ profileId }),
+        });
+        if (!response.ok) {
+          throw new Error('Failed to refresh feed.');
+        }
+        await readStream(response, 'refresh');
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Feed refresh failed.';
+        setError(message);
+        appendLog(message, 'error');
+      } finally {
+        setIsRunning(false);
+      }
+    },
+    [appendLog, readStream],
+  );
+
+  const startRerun = useCallback(
+    async (profileId: string, profile: ProfileCardData) => {
+      setIsRunning(true);
+      try {
+        const response = await fetch('/api/feed?phase=rerun', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ profileId, profile }),
+        });
+        if (!response.ok) {
+          throw new Error('Failed to re-run feed.');
+        }
+        await readStream(response, 'rerun');
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Feed re-run failed.';
+        setError(message);
+        appendLog(message, 'error');
+      } finally {
+        setIsRunning(false);
+      }
+    },
+    [appendLog, readStream],
+  );
+
+  const startReplan = useCallback(
+    async (runId: string, plan: SourceQueryPlan, pinnedQueries: SourceQueryPlan) => {
+      setIsRunning(true);
+      try {
+        const response = await fetch('/api/feed?phase=replan', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ runId, plan, pinnedQueries }),
+        });
+        if (!response.ok) {
+          throw new Error('Failed to re-fetch the query plan.');
+        }
+        await readStream(response, 'replan');
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Query plan re-fetch failed.';
+        setError(message);
+        appendLog(message, 'error');
+      } finally {
+        setIsRunning(false);
+      }
+    },
+    [appendLog, readStream],
+  );
+
   const handleFind = useCallback(async () => {
     if (!name.trim()) {
       setError('Please enter a name.');
@@ -242,6 +346,9 @@ export default function Home() {
     setAgentState(null);
     setCandidates([]);
     setSelectedCandidate(null);
+    setSessionToken(null);
+    setActiveProfileId(null);
+    setActiveRunId(null);
     setProfileCard(null);
     setFeedItems([]);
     setExplorationItems([]);
@@ -258,6 +365,10 @@ export default function Home() {
     if (!selectedCandidate) {
       return;
     }
+    if (!sessionToken) {
+      setError('Discovery session missing. Search again to confirm a candidate.');
+      return;
+    }
     setError(null);
     setProfileCard(null);
     setFeedItems([]);
@@ -267,8 +378,71 @@ export default function Home() {
     setPlanMeta(null);
     setDrawerItem(null);
     setDrawerDigest(null);
-    await startRun(name.trim(), selectedCandidate.id);
-  }, [name, selectedCandidate, startRun]);
+    await startRun(name.trim(), selectedCandidate.id, sessionToken, lens);
+  }, [lens, name, selectedCandidate, sessionToken, startRun]);
+
+  const handleRefreshProfile = useCallback(
+    async (saved: SavedProfile) => {
+      setName(saved.name);
+      setHistoryProfile(null);
+      setError(null);
+      setLogs([]);
+      setAgentState(null);
+      setCandidates([]);
+      setSelectedCandidate(null);
+      setSessionToken(null);
+      setProfileCard(saved.profile);
+      setFeedItems([]);
+      setExplorationItems([]);
+      setCandidatePool([]);
+      setRemainingItems([]);
+      setPlanMeta(null);
+      setDrawerItem(null);
+      setDrawerDigest(null);
+      await startRefresh(saved.id);
+    },
+    [startRefresh],
+  );
+
+  const handleRerunProfile = useCallback(
+    async (profile: ProfileCardData) => {
+      if (!activeProfileId) {
+        return;
+      }
+      setError(null);
+      setLogs([]);
+      setAgentState(null);
+      setProfileCard(profile);
+      setFeedItems([]);
+      setExplorationItems([]);
+      setCandidatePool([]);
+      setRemainingItems([]);
+      setPlanMeta(null);
+      setDrawerItem(null);
+      setDrawerDigest(null);
+      await startRerun(activeProfileId, profile);
+    },
+    [activeProfileId, startRerun],
+  );
+
+  const handleReplan = useCallback(
+    async (plan: SourceQueryPlan, pinnedQueries: SourceQueryPlan) => {
+      if (!activeRunId) {
+        return;
+      }
+      setError(null);
+      setLogs([]);
+      setAgentState(null);
+      setFeedItems([]);
+      setExplorationItems([]);
+      setCandidatePool([]);
+      setRemainingItems([]);
+      setDrawerItem(null);
+      setDrawerDigest(null);
+      await startReplan(activeRunId, plan, pinnedQueries);
+    },
+    [activeRunId, startReplan],
+  );
 
   const handleDeepen = useCallback(
     async (item: FeedItem) => {
@@ -299,6 +473,36 @@ export default function Home() {
     [appendLog, name],
   );
 
+  const handleFeedback = useCallback(
+    async (item: FeedItem, action: FeedbackAction) => {
+      try {
+        const response = await fetch('/api/feedback', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ itemId: item.id, action, runId: activeRunId, profileId: activeProfileId }),
+        });
+        const payload = (await response.json()) as { error?: string };
+        if (!response.ok) {
+          throw new Error(payload.error ?? 'Unable to save feedback.');
+        }
+        setItemFeedback((prev) => ({ ...prev, [item.id]: action }));
+        if (action !== 'like') {
+          // Dismissed and "less like this" items are filtered out of later runs, so drop them now too.
+          setFeedItems((prev) => prev.filter((entry) => entry.id !== item.id));
+          setExplorationItems((prev) => prev.filter((entry) => entry.id !== item.id));
+        }
+        appendLog(action === 'like' ? `Liked "${item.title}".` : `Hid "${item.title}"; the next run adjusts for it.`, 'info');
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unable to save feedback.';
+        setError(message);
+        appendLog(message, 'error');
+      }
+    },
+    [activeProfileId, activeRunId, appendLog],
+  );
+
   const stageLabel = useMemo(() => {
     if (!agentState) {
       return null;
@@ -312,6 +516,15 @@ export default function Home() {
         <div className="space-y-6">
           <NameInput value={name} onChange={setName} onSubmit={handleFind} disabled={isDiscovering || isRunning} />
 
+          <SavedProfiles
+            reloadKey={profilesVersion}
+            onRefresh={handleRefreshProfile}
+            onShowHistory={setHistoryProfile}
+            disabled={isDiscovering || isRunning}
+          />
+
+          {historyProfile ? <FeedHistory profile={historyProfile} onClose={() => setHistoryProfile(null)} /> : null}
+
           {error && (
             <div className="rounded-xl border border-rose-500/40 bg-rose-500/10 p-4 text-sm text-rose-200">
               {error}
@@ -325,38 +538,40 @@ export default function Home() {
               onSelect={(candidate) => setSelectedCandidate(candidate)}
               onConfirm={handleConfirmCandidate}
               isConfirming={isRunning}
+              lens={lens}
+              onLensChange={setLens}
             />
           )}
 
           {isRunning && !profileCard ? <HarvestSkeleton /> : null}
 
-          {profileCard ? <ProfileCard profile={profileCard} /> : null}
+          {profileCard ? (
+            <ProfileCard
+              profile={profileCard}
+              onRerun={activeProfileId ? handleRerunProfile : undefined}
+              disabled={isDiscovering || isRunning}
+            />
+          ) : null}
 
           {feedItems.length > 0 ? (
-            <FeedList items={feedItems} explorationItems={explorationItems} onDeepen={handleDeepen} />
+            <FeedList
+              items={feedItems}
+              explorationItems={explorationItems}
+              feedback={itemFeedback}
+              onDeepen={handleDeepen}
+              onFeedback={handleFeedback}
+            />
           ) : null}
 
           {planMeta ? (
-            <section className="rounded-2xl border border-slate-700/60 bg-slate-950/70 p-6 shadow-lg">
-              <header className="mb-4">
-                <h2 className="text-xl font-semibold text-white">Query Plan</h2>
-                <p className="text-sm text-slate-400">
-                  Mode: {planMeta.mode === 'llm' ? 'LLM-crafted queries' : 'Keyword fallback'}
-                </p>
-              </header>
-              <div className="grid gap-4 sm:grid-cols-3">
-                {Object.entries(planMeta.plan).map(([source, queries]) => (
-                  <div key={source} className="rounded-xl border border-slate-800 bg-slate-900/70 p-4">
-                    <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-300">{source}</h3>
-                    <ul className="mt-2 space-y-2 text-xs text-slate-300">
-                      {queries.slice(0, 4).map((query) => (
-                        <li key={query} className="line-clamp-2">{query}</li>
-                      ))}
-                    </ul>
-                  </div>
-                ))}
-              </div>
-            </section>
+            <QueryPlan
+              plan={planMeta.plan}
+              mode={planMeta.mode}
+              limits={planMeta.limits}
+              pinned={profileCard?.pinnedQueries}
+              onRerun={activeRunId ? handleReplan : undefined}
+              disabled={isDiscovering || isRunning}
+            />
           ) : null}
 
           {(candidatePool.length > 0 || remainingItems.length > 0) ? (
@@ -370,7 +585,11 @@ export default function Home() {
           )}
         </div>
 
-        <AgentLog entries={logs} stage={stageLabel} />
+        <div className="space-y-6">
+          <AgentLog entries={logs} stage={stageLabel} />
+          <SubscriptionManager />
+          <CommunityPins />
+        </div>
       </div>
 
       <DeepenDrawer
@@ -1,5 +1,6 @@
 import Image from 'next/image';
-import { CandidateProfile } from '../types';
+import { getLensDescriptor, profileLenses } from '../lib/lenses';
+import { CandidateProfile, ProfileLens } from '../types';
 
 interface CandidateGalleryProps {
   candidates: CandidateProfile[];
@@ -7,6 +8,9 @@ interface CandidateGalleryProps {
   onSelect: (candidate: CandidateProfile) => void;
   onConfirm: () => void;
   isConfirming: boolean;
+  /** Empty leaves the choice to the server's `PROFILE_LENS`. */
+  lens: ProfileLens | '';
+  onLensChange: (lens: ProfileLens | '') => void;
 }
 
 const sourceCopy: Record<CandidateProfile['source'], string> = {
@@ -20,6 +24,8 @@ export function CandidateGallery({
   onSelect,
   onConfirm,
   isConfirming,
+  lens,
+  onLensChange,
 }: CandidateGalleryProps) {
   return (
     <section className="rounded-2xl border border-slate-700/60 bg-slate-950/70 p-6 shadow-lg">
@@ -84,7 +90,24 @@ export function CandidateGallery({
           );
         })}
       </div>
-      <div className="mt-5 flex items-center justify-end gap-3">
+      <div className="mt-5 flex flex-wrap items-center justify-end gap-3">
+        <label className="flex items-center gap-2 text-xs text-slate-400">
+          Profile lens
+          <select
+            value={lens}
+            onChange={(event) => onLensChange(event.target.value as ProfileLens | '')}
+            disabled={isConfirming}
+            className="rounded-md border border-slate-700/80 bg-slate-950/80 px-2 py-1 text-xs text-white focus:border-sky-400 focus:outline-none"
+          >
+            <option value="">Default</option>
+            {profileLenses().map((descriptor) => (
+              <option key={descriptor.id} value={descriptor.id}>
+                {descriptor.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {lens ? <p className="mr-auto text-xs text-slate-500 sm:order-first">{getLensDescriptor(lens).description}</p> : null}
         <button
           type="button"
           onClick={onConfirm}
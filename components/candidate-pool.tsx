@@ -1,18 +1,11 @@
-import { CandidatePoolItem, FeedItem } from '../types';
+import { getSourceDescriptor, listSourceDescriptors } from '../lib/sources';
+import { CandidatePoolItem } from '../types';
 
 interface CandidatePoolProps {
   pool: CandidatePoolItem[];
   remainder: CandidatePoolItem[];
 }
 
-const sourceStyles: Record<CandidatePoolItem['source'], string> = {
-  arxiv: 'text-purple-300',
-  hn: 'text-amber-300',
-  news: 'text-sky-300',
-  github: 'text-emerald-300',
-  x: 'text-indigo-300',
-};
-
 export function CandidatePool({ pool, remainder }: CandidatePoolProps) {
   if (pool.length === 0 && remainder.length === 0) {
     return null;
@@ -36,7 +29,7 @@ export function CandidatePool({ pool, remainder }: CandidatePoolProps) {
       <header className="mb-4">
         <h2 className="text-xl font-semibold text-white">Full Candidate Pool</h2>
         <p className="text-sm text-slate-400">
-          Includes every item fetched from ArXiv, Hacker News, X.com, and news/blog sources.
+          Includes every item fetched from {listSourceDescriptors().map(descriptor => descriptor.name).join(', ')}.
         </p>
       </header>
       <div className="space-y-6">
@@ -50,7 +43,7 @@ export function CandidatePool({ pool, remainder }: CandidatePoolProps) {
               {section.items.map((item) => (
                 <article key={item.id} className="rounded-xl border border-slate-800 bg-slate-900/60 p-4">
                   <div className="mb-2 flex items-center justify-between text-xs text-slate-500">
-                    <span className={sourceStyles[item.source] ?? 'text-slate-300'}>{item.source.toUpperCase()}</span>
+                    <span className={getSourceDescriptor(item.source).accentStyle}>{item.source.toUpperCase()}</span>
                     <span>{item.date}</span>
                   </div>
                   <h4 className="text-sm font-semibold text-slate-100">
@@ -0,0 +1,133 @@
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { getSourceDescriptor } from '../lib/sources';
+import { CommunityPin, CommunityPlatform } from '../types';
+
+const platforms: CommunityPlatform[] = ['reddit', 'lobsters'];
+
+const placeholders: Record<CommunityPlatform, string> = {
+  reddit: 'r/MachineLearning',
+  lobsters: 'ai',
+};
+
+function pinLabel(pin: CommunityPin) {
+  return pin.platform === 'reddit' ? `r/${pin.name}` : `#${pin.name}`;
+}
+
+export function CommunityPins() {
+  const [pins, setPins] = useState<CommunityPin[]>([]);
+  const [platform, setPlatform] = useState<CommunityPlatform>('reddit');
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPins = useCallback(async () => {
+    try {
+      const response = await fetch('/api/communities');
+      const payload = (await response.json()) as { pins?: CommunityPin[] };
+      setPins(payload.pins ?? []);
+    } catch {
+      setError('Unable to load pinned communities.');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPins();
+  }, [loadPins]);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!name.trim() || isSaving) {
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/communities', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ platform, name: name.trim() }),
+      });
+      const payload = (await response.json()) as { pins?: CommunityPin[]; error?: string };
+      if (!response.ok) {
+        throw new Error(payload.error ?? 'Unable to pin community.');
+      }
+      setPins(payload.pins ?? []);
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to pin community.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/communities?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+      const payload = (await response.json()) as { pins?: CommunityPin[]; error?: string };
+      if (!response.ok) {
+        throw new Error(payload.error ?? 'Unable to unpin community.');
+      }
+      setPins(payload.pins ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to unpin community.');
+    }
+  };
+
+  return (
+    <section className="rounded-2xl border border-slate-700/60 bg-slate-950/80 p-4 shadow-inner">
+      <header className="mb-3">
+        <h2 className="text-lg font-semibold text-white">Communities</h2>
+        <p className="text-xs text-slate-400">Subreddits and Lobsters tags searched on every run.</p>
+      </header>
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <select
+          value={platform}
+          onChange={(event) => setPlatform(event.target.value as CommunityPlatform)}
+          className="rounded-lg border border-slate-600/70 bg-slate-950/80 px-2 py-2 text-xs text-white focus:border-sky-400 focus:outline-none"
+          disabled={isSaving}
+        >
+          {platforms.map((option) => (
+            <option key={option} value={option}>
+              {getSourceDescriptor(option).label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder={placeholders[platform]}
+          className="min-w-0 flex-1 rounded-lg border border-slate-600/70 bg-slate-950/80 px-3 py-2 text-xs text-white placeholder-slate-500 focus:border-sky-400 focus:outline-none"
+          disabled={isSaving}
+        />
+        <button
+          type="submit"
+          disabled={isSaving || !name.trim()}
+          className="rounded-lg bg-sky-500 px-3 py-2 text-xs font-medium text-white transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-slate-600"
+        >
+          {isSaving ? 'Pinning…' : 'Pin'}
+        </button>
+      </form>
+      {error ? <p className="mt-2 text-xs text-rose-300">{error}</p> : null}
+      {pins.length > 0 ? (
+        <ul className="mt-3 flex flex-wrap gap-2">
+          {pins.map((pin) => (
+            <li key={pin.id}>
+              <button
+                type="button"
+                onClick={() => handleRemove(pin.id)}
+                title="Unpin"
+                className={`rounded-full px-3 py-1 text-[11px] font-semibold transition hover:opacity-70 ${getSourceDescriptor(pin.platform).badgeStyle}`}
+              >
+                {pinLabel(pin)} ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </section>
+  );
+}
@@ -1,3 +1,4 @@
+import { formatDuration } from '../lib/text';
 import { DeepenDigest, FeedItem } from '../types';
 
 interface DeepenDrawerProps {
@@ -29,6 +30,24 @@ export function DeepenDrawer({ item, digest, isLoading, onClose }: DeepenDrawerP
           </button>
         </header>
         <div className="flex-1 space-y-5 overflow-y-auto pr-1">
+          {item.audio ? (
+            <section className="flex items-center justify-between gap-3 rounded-lg border border-slate-800 bg-slate-900/70 p-3">
+              <div className="min-w-0">
+                <p className="truncate text-sm font-medium text-slate-200">{item.audio.show}</p>
+                <p className="text-xs text-slate-500">
+                  {item.audio.durationSeconds ? `Episode length ${formatDuration(item.audio.durationSeconds)}` : 'Episode length unknown'}
+                </p>
+              </div>
+              <a
+                href={item.audio.url}
+                target="_blank"
+                rel="noreferrer"
+                className="rounded-md border border-teal-500/50 px-3 py-1.5 text-xs font-semibold text-teal-200 transition hover:border-teal-400 hover:text-white"
+              >
+                Listen
+              </a>
+            </section>
+          ) : null}
           {isLoading ? (
             <div className="space-y-3">
               <div className="h-3 w-3/4 animate-pulse rounded bg-slate-800/70" />
@@ -0,0 +1,157 @@
+import { useEffect, useState } from 'react';
+import { getSourceDescriptor } from '../lib/sources';
+import { FeedHistoryEntry, PromptChange, SavedProfile, WeightChange } from '../types';
+
+interface FeedHistoryProps {
+  profile: SavedProfile;
+  onClose: () => void;
+}
+
+const statusStyles = {
+  new: 'border-emerald-500/50 bg-emerald-500/10 text-emerald-200',
+  repeat: 'border-slate-600/70 bg-slate-800/70 text-slate-300',
+  dropped: 'border-rose-500/50 bg-rose-500/10 text-rose-200',
+} as const;
+
+function StatusBadge({ status }: { status: keyof typeof statusStyles }) {
+  return (
+    <span className={`shrink-0 rounded-full border px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide ${statusStyles[status]}`}>
+      {status}
+    </span>
+  );
+}
+
+function formatChange(change: WeightChange) {
+  if (change.previous === undefined) return `new · ${Math.round((change.current ?? 0) * 100)}%`;
+  if (change.current === undefined) return 'removed';
+  const points = Math.round(change.delta * 100);
+  return `${points > 0 ? '+' : ''}${points} pts · ${Math.round(change.current * 100)}%`;
+}
+
+function WeightChanges({ title, changes }: { title: string; changes: WeightChange[] }) {
+  if (changes.length === 0) {
+    return null;
+  }
+  return (
+    <div className="space-y-1">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-400">{title}</h4>
+      <div className="flex flex-wrap gap-2">
+        {changes.slice(0, 8).map((change) => (
+          <span
+            key={change.key}
+            className={`rounded-full border px-2 py-0.5 text-[11px] ${
+              change.delta >= 0 ? 'border-emerald-500/40 text-emerald-200' : 'border-rose-500/40 text-rose-200'
+            }`}
+          >
+            {change.key} <span className="text-slate-400">{formatChange(change)}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function PromptChanges({ changes }: { changes: PromptChange[] }) {
+  if (changes.length === 0) {
+    return null;
+  }
+  return (
+    <div className="space-y-1">
+      <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-400">Prompt changes</h4>
+      <ul className="space-y-0.5 text-[11px] text-slate-300">
+        {changes.map((change) => (
+          <li key={change.id}>
+            <span className="text-slate-500">{change.previous}</span> → {change.current}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function FeedHistory({ profile, onClose }: FeedHistoryProps) {
+  const [history, setHistory] = useState<FeedHistoryEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setHistory(null);
+    setError(null);
+    (async () => {
+      try {
+        const response = await fetch(`/api/history?profileId=${encodeURIComponent(profile.id)}`);
+        const payload = (await response.json()) as { history?: FeedHistoryEntry[]; error?: string };
+        if (!response.ok) {
+          throw new Error(payload.error ?? 'Unable to load feed history.');
+        }
+        if (!cancelled) setHistory(payload.history ?? []);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unable to load feed history.');
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [profile.id]);
+
+  return (
+    <section className="rounded-2xl border border-slate-700/60 bg-slate-950/70 p-6 shadow-lg">
+      <header className="mb-4 flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Feed History</h2>
+          <p className="text-sm text-slate-400">Past feeds for {profile.name}, compared with the run before each.</p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-md border border-slate-700/80 px-2 py-1.5 text-xs font-semibold text-slate-300 transition hover:border-slate-500 hover:text-white"
+        >
+          Close
+        </button>
+      </header>
+      {error ? <p className="text-xs text-rose-300">{error}</p> : null}
+      {!history && !error ? <p className="text-sm text-slate-400">Loading history…</p> : null}
+      {history && history.length === 0 ? <p className="text-sm text-slate-400">No completed runs yet.</p> : null}
+      {history && history.length > 0 ? (
+        <ol className="space-y-6">
+          {history.map((entry) => {
+            const fresh = entry.items.filter((item) => item.status === 'new').length;
+            return (
+              <li key={entry.runId} className="space-y-3 rounded-xl border border-slate-800 bg-slate-900/70 p-4">
+                <div className="flex items-center justify-between gap-3">
+                  <h3 className="text-sm font-semibold text-sky-200">{new Date(entry.createdAt).toLocaleString()}</h3>
+                  <span className="text-xs text-slate-500">
+                    {fresh} new · {entry.items.length - fresh} repeat · {entry.dropped.length} dropped
+                  </span>
+                </div>
+                <WeightChanges title="Keyword weights" changes={entry.keywordChanges} />
+                <WeightChanges title="Source focus" changes={entry.sourceFocusChanges} />
+                <PromptChanges changes={entry.promptChanges} />
+                <ul className="space-y-2">
+                  {entry.items.map((item) => (
+                    <li key={item.id} className="flex items-center gap-2 text-sm">
+                      <StatusBadge status={item.status} />
+                      <span className="shrink-0 text-[11px] text-slate-500">{getSourceDescriptor(item.source).label}</span>
+                      <a href={item.url} target="_blank" rel="noreferrer" className="truncate text-slate-200 hover:text-sky-300">
+                        {item.title}
+                      </a>
+                    </li>
+                  ))}
+                  {entry.dropped.map((item) => (
+                    <li key={`dropped-${item.id}`} className="flex items-center gap-2 text-sm">
+                      <StatusBadge status="dropped" />
+                      <span className="shrink-0 text-[11px] text-slate-500">{getSourceDescriptor(item.source).label}</span>
+                      <a href={item.url} target="_blank" rel="noreferrer" className="truncate text-slate-500 line-through hover:text-slate-300">
+                        {item.title}
+                      </a>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            );
+          })}
+        </ol>
+      ) : null}
+    </section>
+  );
+}
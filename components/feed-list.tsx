@@ -1,28 +1,114 @@
-import { FeedItem } from '../types';
+import Image from 'next/image';
+import { getSourceDescriptor } from '../lib/sources';
+import { formatDuration } from '../lib/text';
+import { FeedItem, FeedbackAction } from '../types';
 
 interface FeedListProps {
   items: FeedItem[];
   explorationItems?: FeedItem[];
+  /** Feedback already given this session, by item id. */
+  feedback?: Record<string, FeedbackAction>;
   onDeepen: (item: FeedItem) => void;
+  onFeedback?: (item: FeedItem, action: FeedbackAction) => void;
 }
 
-const sourceStyles: Record<FeedItem['source'], string> = {
-  arxiv: 'bg-purple-500/20 text-purple-200 border border-purple-500/40',
-  hn: 'bg-amber-500/20 text-amber-200 border border-amber-500/40',
-  github: 'bg-emerald-500/20 text-emerald-100 border border-emerald-500/40',
-  news: 'bg-sky-500/20 text-sky-100 border border-sky-500/40',
-  x: 'bg-indigo-500/20 text-indigo-200 border border-indigo-500/40',
-};
+const feedbackButtons: Array<{ action: FeedbackAction; label: string; activeStyle: string }> = [
+  { action: 'like', label: 'Like', activeStyle: 'border-emerald-500/70 bg-emerald-500/10 text-emerald-200' },
+  { action: 'less', label: 'Less like this', activeStyle: 'border-amber-500/70 bg-amber-500/10 text-amber-200' },
+  { action: 'dismiss', label: 'Dismiss', activeStyle: 'border-rose-500/70 bg-rose-500/10 text-rose-200' },
+];
 
-const sourceLabel: Record<FeedItem['source'], string> = {
-  arxiv: 'arXiv',
-  hn: 'HN',
-  github: 'GH',
-  news: 'News',
-  x: 'X',
-};
+interface ItemActionsProps {
+  item: FeedItem;
+  feedback?: FeedbackAction;
+  onDeepen: (item: FeedItem) => void;
+  onFeedback?: (item: FeedItem, action: FeedbackAction) => void;
+}
+
+function ItemActions({ item, feedback, onDeepen, onFeedback }: ItemActionsProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-2">
+      {onFeedback
+        ? feedbackButtons.map(({ action, label, activeStyle }) => (
+            <button
+              key={action}
+              type="button"
+              onClick={() => onFeedback(item, action)}
+              disabled={feedback === action}
+              className={`rounded-md border px-2 py-1.5 text-xs font-semibold transition ${
+                feedback === action
+                  ? activeStyle
+                  : 'border-slate-800 text-slate-400 hover:border-slate-600 hover:text-white'
+              }`}
+            >
+              {label}
+            </button>
+          ))
+        : null}
+      <button
+        type="button"
+        onClick={() => onDeepen(item)}
+        className="rounded-md border border-slate-700/80 px-3 py-1.5 text-xs font-semibold text-slate-200 transition hover:border-sky-500/60 hover:text-white"
+      >
+        Deepen
+      </button>
+    </div>
+  );
+}
+
+function VideoThumbnail({ item }: { item: FeedItem }) {
+  if (!item.video?.thumbnailUrl) {
+    return null;
+  }
+  return (
+    <a href={item.url} target="_blank" rel="noreferrer" className="relative block w-full max-w-xs overflow-hidden rounded-lg border border-slate-800">
+      <Image src={item.video.thumbnailUrl} alt={item.title} width={480} height={270} className="h-auto w-full object-cover" />
+      {item.video.durationSeconds ? (
+        <span className="absolute bottom-1 right-1 rounded bg-slate-950/80 px-1.5 py-0.5 text-[11px] font-medium text-white">
+          {formatDuration(item.video.durationSeconds)}
+        </span>
+      ) : null}
+    </a>
+  );
+}
+
+function ItemMeta({ item }: { item: FeedItem }) {
+  const parts: string[] = [];
+  if (item.community) parts.push(item.community);
+  if (item.engagement?.points !== undefined) parts.push(`${item.engagement.points} points`);
+  if (item.engagement?.comments !== undefined) parts.push(`${item.engagement.comments} comments`);
+  if (item.engagement?.stars !== undefined) parts.push(`★ ${item.engagement.stars}`);
+  if (item.engagement?.starVelocity !== undefined) parts.push(`+${item.engagement.starVelocity}/wk`);
+  if (item.repo?.language) parts.push(item.repo.language);
+  if (item.video?.durationSeconds) parts.push(formatDuration(item.video.durationSeconds));
+  if (item.audio) parts.push(item.audio.durationSeconds ? `${item.audio.show} · ${formatDuration(item.audio.durationSeconds)}` : item.audio.show);
+  if (item.engagement?.reposts !== undefined) parts.push(`${item.engagement.reposts} reposts`);
+  if (item.engagement?.likes !== undefined) parts.push(`♥ ${item.engagement.likes}`);
+  if (item.engagement?.downloads !== undefined) parts.push(`${item.engagement.downloads.toLocaleString()} downloads`);
+  if (item.hub?.task) parts.push(item.hub.task);
+  if (item.engagement?.citations !== undefined) parts.push(`${item.engagement.citations} citations`);
+  if (item.paper?.venue) parts.push(item.paper.venue);
+  if (item.paper && item.paper.authors.length > 1) {
+    parts.push(`by ${item.paper.authors[0]} et al.`);
+  } else if (item.author) {
+    parts.push(`by ${item.author}`);
+  }
+  if (parts.length === 0 && !item.discussionUrl) {
+    return null;
+  }
+  return (
+    <p className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+      {parts.length > 0 ? <span>{parts.join(' · ')}</span> : null}
+      {item.discussionUrl && item.discussionUrl !== item.url ? (
+        <a href={item.discussionUrl} target="_blank" rel="noreferrer" className="text-sky-400 hover:underline">
+          Discussion
+        </a>
+      ) : null}
+    </p>
+  );
+}
 
-export function FeedList({ items, explorationItems = [], onDeepen }: FeedListProps) {
+export function FeedList({ items, explorationItems = [], feedback = {}, onDeepen, onFeedback }: FeedListProps) {
   return (
     <section className="rounded-2xl border border-slate-700/60 bg-slate-950/70 p-6 shadow-lg">
       <header className="mb-4">
@@ -35,8 +121,8 @@ export function FeedList({ items, explorationItems = [], onDeepen }: FeedListPro
           {items.map((item) => (
             <article key={item.id} className="space-y-3 rounded-xl border border-slate-800 bg-slate-900/70 p-4">
               <div className="flex items-center justify-between gap-3">
-                <span className={`inline-flex items-center rounded-full px-3 py-1 text-xs font-semibold ${sourceStyles[item.source]}`}>
-                  {sourceLabel[item.source]}
+                <span className={`inline-flex items-center rounded-full px-3 py-1 text-xs font-semibold ${getSourceDescriptor(item.source).badgeStyle}`}>
+                  {getSourceDescriptor(item.source).label}
                 </span>
                 <span className="text-xs text-slate-500">{item.date}</span>
               </div>
@@ -45,17 +131,11 @@ export function FeedList({ items, explorationItems = [], onDeepen }: FeedListPro
                   {item.title}
                 </a>
               </h3>
+              <VideoThumbnail item={item} />
               <p className="text-sm text-slate-300">{item.summary}</p>
+              <ItemMeta item={item} />
               <p className="text-xs font-medium uppercase tracking-wide text-slate-400">Because… <span className="normal-case font-normal text-slate-200">{item.because}</span></p>
-              <div className="flex items-center justify-end">
-                <button
-                  type="button"
-                  onClick={() => onDeepen(item)}
-                  className="rounded-md border border-slate-700/80 px-3 py-1.5 text-xs font-semibold text-slate-200 transition hover:border-sky-500/60 hover:text-white"
-                >
-                  Deepen
-                </button>
-              </div>
+              <ItemActions item={item} feedback={feedback[item.id]} onDeepen={onDeepen} onFeedback={onFeedback} />
             </article>
           ))}
         </div>
@@ -66,8 +146,8 @@ export function FeedList({ items, explorationItems = [], onDeepen }: FeedListPro
             {explorationItems.map((item) => (
               <article key={item.id} className="space-y-3 rounded-xl border border-slate-800 bg-slate-900/70 p-4">
                 <div className="flex items-center justify-between gap-3">
-                  <span className={`inline-flex items-center rounded-full px-3 py-1 text-xs font-semibold ${sourceStyles[item.source]}`}>
-                    {sourceLabel[item.source]}
+                  <span className={`inline-flex items-center rounded-full px-3 py-1 text-xs font-semibold ${getSourceDescriptor(item.source).badgeStyle}`}>
+                    {getSourceDescriptor(item.source).label}
                   </span>
                   <span className="text-xs text-slate-500">{item.date}</span>
                 </div>
@@ -76,17 +156,11 @@ export function FeedList({ items, explorationItems = [], onDeepen }: FeedListPro
                     {item.title}
                   </a>
                 </h3>
+                <VideoThumbnail item={item} />
                 <p className="text-sm text-slate-300">{item.summary}</p>
+                <ItemMeta item={item} />
                 <p className="text-xs font-medium uppercase tracking-wide text-slate-400">Because… <span className="normal-case font-normal text-slate-200">{item.because}</span></p>
-                <div className="flex items-center justify-end">
-                  <button
-                    type="button"
-                    onClick={() => onDeepen(item)}
-                    className="rounded-md border border-slate-700/80 px-3 py-1.5 text-xs font-semibold text-slate-200 transition hover:border-sky-500/60 hover:text-white"
-                  >
-                    Deepen
-                  </button>
-                </div>
+                <ItemActions item={item} feedback={feedback[item.id]} onDeepen={onDeepen} onFeedback={onFeedback} />
               </article>
             ))}
           </div>
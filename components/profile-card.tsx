@@ -1,8 +1,12 @@
-import { useState } from 'react';
+import { FormEvent, useState } from 'react';
+import { getLensDescriptor } from '../lib/lenses';
 import { ProfileCardData } from '../types';
 
 interface ProfileCardProps {
   profile: ProfileCardData;
+  /** Enables editing; called with the edited card to re-run the feed from the fetch stage. */
+  onRerun?: (profile: ProfileCardData) => void;
+  disabled?: boolean;
 }
 
 const preferenceMap = {
@@ -51,8 +55,174 @@ const preferenceMap = {
 
 type PreferenceKey = keyof typeof preferenceMap;
 
-export function ProfileCard({ profile }: ProfileCardProps) {
+interface DraftKeyword {
+  keyword: string;
+  weight: number;
+}
+
+function draftKeywords(profile: ProfileCardData): DraftKeyword[] {
+  const weights = profile.keywordWeights ?? [];
+  const weighted = new Set(weights.map(entry => entry.keyword.toLowerCase()));
+  // Keywords without a weight start at the lowest existing one so they still count.
+  const floor = weights.length > 0 ? Math.min(...weights.map(entry => entry.weight)) : 1 / Math.max(profile.keywords.length, 1);
+  return [
+    ...weights.map(({ keyword, weight }) => ({ keyword, weight })),
+    ...profile.keywords.filter(keyword => !weighted.has(keyword.toLowerCase())).map(keyword => ({ keyword, weight: floor })),
+  ];
+}
+
+interface ProfileEditorProps {
+  profile: ProfileCardData;
+  disabled?: boolean;
+  onCancel: () => void;
+  onSubmit: (profile: ProfileCardData) => void;
+}
+
+function ProfileEditor({ profile, disabled, onCancel, onSubmit }: ProfileEditorProps) {
+  const [keywords, setKeywords] = useState<DraftKeyword[]>(() => draftKeywords(profile));
+  const [newKeyword, setNewKeyword] = useState('');
+  const [preferences, setPreferences] = useState(profile.preferences);
+  const [notes, setNotes] = useState(profile.preferenceNotes ?? '');
+
+  const addKeyword = () => {
+    const keyword = newKeyword.trim();
+    if (!keyword || keywords.some(entry => entry.keyword.toLowerCase() === keyword.toLowerCase())) {
+      setNewKeyword('');
+      return;
+    }
+    const average = keywords.length > 0 ? keywords.reduce((sum, entry) => sum + entry.weight, 0) / keywords.length : 0.5;
+    setKeywords(prev => [...prev, { keyword, weight: average }]);
+    setNewKeyword('');
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (disabled || keywords.length === 0) {
+      return;
+    }
+    onSubmit({
+      ...profile,
+      keywords: keywords.map(entry => entry.keyword),
+      keywordWeights: keywords.map(entry => ({ keyword: entry.keyword, weight: entry.weight })),
+      preferences,
+      preferenceNotes: notes,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-6 space-y-6">
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-300">Keywords</h3>
+        <ul className="space-y-2">
+          {keywords.map((entry) => (
+            <li key={entry.keyword} className="flex items-center gap-3">
+              <span className="w-40 shrink-0 truncate text-xs text-sky-100">{entry.keyword}</span>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(entry.weight * 100)}
+                onChange={(event) => {
+                  const weight = Number(event.target.value) / 100;
+                  setKeywords(prev => prev.map(item => (item.keyword === entry.keyword ? { ...item, weight } : item)));
+                }}
+                className="flex-1 accent-sky-500"
+                aria-label={`Weight for ${entry.keyword}`}
+              />
+              <span className="w-10 text-right text-[11px] text-slate-400">{Math.round(entry.weight * 100)}%</span>
+              <button
+                type="button"
+                onClick={() => setKeywords(prev => prev.filter(item => item.keyword !== entry.keyword))}
+                className="rounded-md border border-slate-700/80 px-2 py-0.5 text-[11px] text-slate-300 transition hover:border-rose-500/60 hover:text-white"
+                aria-label={`Remove ${entry.keyword}`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newKeyword}
+            onChange={(event) => setNewKeyword(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                event.preventDefault();
+                addKeyword();
+              }
+            }}
+            placeholder="Add a keyword"
+            className="min-w-0 flex-1 rounded-lg border border-slate-600/70 bg-slate-950/80 px-3 py-2 text-xs text-white placeholder-slate-500 focus:border-sky-400 focus:outline-none"
+          />
+          <button
+            type="button"
+            onClick={addKeyword}
+            disabled={!newKeyword.trim()}
+            className="rounded-lg border border-slate-700/80 px-3 py-2 text-xs font-medium text-slate-200 transition hover:border-sky-500/60 hover:text-white disabled:cursor-not-allowed disabled:text-slate-500"
+          >
+            Add
+          </button>
+        </div>
+        <p className="text-[11px] text-slate-500">Weights are relative; they are rescaled to sum to 100% when the feed re-runs.</p>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-300">Preferences</h3>
+        <div className="grid gap-3 sm:grid-cols-3">
+          {(Object.keys(preferenceMap) as PreferenceKey[]).map((key) => (
+            <label key={key} className="space-y-1 text-xs uppercase tracking-wide text-slate-400">
+              <span>{preferenceMap[key].label}</span>
+              <select
+                value={preferences[key]}
+                onChange={(event) => setPreferences(prev => ({ ...prev, [key]: event.target.value }))}
+                className="w-full rounded-lg border border-slate-600/70 bg-slate-950/80 px-2 py-2 text-xs normal-case text-white focus:border-sky-400 focus:outline-none"
+              >
+                {Object.keys(preferenceMap[key].hints).map((option) => (
+                  <option key={option} value={option}>
+                    {option}
+                  </option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-300">Preference Notes</h3>
+        <textarea
+          value={notes}
+          onChange={(event) => setNotes(event.target.value)}
+          rows={3}
+          className="w-full rounded-lg border border-slate-600/70 bg-slate-950/80 px-3 py-2 text-sm text-white placeholder-slate-500 focus:border-sky-400 focus:outline-none"
+          placeholder="Anything the ranking should know, e.g. skip beginner tutorials."
+        />
+      </div>
+
+      <div className="flex items-center justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-md border border-slate-700/80 px-3 py-1.5 text-xs font-semibold text-slate-300 transition hover:border-slate-500 hover:text-white"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={disabled || keywords.length === 0}
+          className="rounded-md bg-sky-500 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-slate-600"
+        >
+          Re-run feed
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export function ProfileCard({ profile, onRerun, disabled }: ProfileCardProps) {
   const [isEvidenceOpen, setEvidenceOpen] = useState(false);
+  const [isEditing, setEditing] = useState(false);
 
   const toggleEvidence = () => setEvidenceOpen((prev) => !prev);
 
@@ -68,85 +238,113 @@ export function ProfileCard({ profile }: ProfileCardProps) {
 
   return (
     <section className="rounded-2xl border border-slate-700/60 bg-slate-950/70 p-6 shadow-lg">
-      <header className="mb-4 space-y-1">
-        <h2 className="text-xl font-semibold text-white">Profile</h2>
-        <p className="text-sm text-slate-400">Summarized from public info.</p>
+      <header className="mb-4 flex items-start justify-between gap-3">
+        <div className="space-y-1">
+          <h2 className="text-xl font-semibold text-white">Profile</h2>
+          <p className="text-sm text-slate-400">
+            Summarized from public info · {getLensDescriptor(profile.lens).label} lens
+          </p>
+        </div>
+        {onRerun && !isEditing ? (
+          <button
+            type="button"
+            onClick={() => setEditing(true)}
+            disabled={disabled}
+            className="rounded-md border border-slate-700/80 px-3 py-1.5 text-xs font-semibold text-slate-200 transition hover:border-sky-500/60 hover:text-white disabled:cursor-not-allowed disabled:text-slate-500"
+          >
+            Edit
+          </button>
+        ) : null}
       </header>
       <p className="text-base leading-relaxed text-slate-200">{profile.summary}</p>
 
-      <div className="mt-6 space-y-2">
-        <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-300">Keywords</h3>
-        <div className="flex flex-wrap gap-2">
-          {weightedKeywords.map(({ keyword, weight }) => (
-            <span
-              key={keyword}
-              className="rounded-full border border-sky-500/50 bg-sky-500/10 px-3 py-1 text-xs font-medium text-sky-100"
-              title={weight !== undefined ? `Weight: ${(weight * 100).toFixed(0)}%` : undefined}
-            >
-              {keyword}
-              {weight !== undefined ? (
-                <span className="ml-1 text-[10px] text-sky-300/80">{Math.round(weight * 100)}%</span>
-              ) : null}
-            </span>
-          ))}
-        </div>
-      </div>
-
-      <div className="mt-6 space-y-4">
-        <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-300">Preferences</h3>
-        {(Object.keys(preferenceMap) as PreferenceKey[]).map((key) => {
-          const preference = profile.preferences[key];
-          const config = preferenceMap[key];
-          return (
-            <div key={key} className="space-y-1">
-              <div className="flex items-center justify-between text-xs uppercase tracking-wide text-slate-400">
-                <span>{config.label}</span>
-                <span className="text-slate-200">{preference}</span>
-              </div>
-              <div className="h-2 w-full rounded-full bg-slate-800/80">
-                <div
-                  className="h-2 rounded-full bg-sky-500 transition-all"
-                  style={{ width: config.width[preference as keyof typeof config.width] || '50%' }}
-                />
-              </div>
-              <p className="text-xs text-slate-400">{config.hints[preference as keyof typeof config.hints] || ''}</p>
+      {isEditing && onRerun ? (
+        <ProfileEditor
+          profile={profile}
+          disabled={disabled}
+          onCancel={() => setEditing(false)}
+          onSubmit={(edited) => {
+            setEditing(false);
+            onRerun(edited);
+          }}
+        />
+      ) : (
+        <>
+          <div className="mt-6 space-y-2">
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-300">Keywords</h3>
+            <div className="flex flex-wrap gap-2">
+              {weightedKeywords.map(({ keyword, weight }) => (
+                <span
+                  key={keyword}
+                  className="rounded-full border border-sky-500/50 bg-sky-500/10 px-3 py-1 text-xs font-medium text-sky-100"
+                  title={weight !== undefined ? `Weight: ${(weight * 100).toFixed(0)}%` : undefined}
+                >
+                  {keyword}
+                  {weight !== undefined ? (
+                    <span className="ml-1 text-[10px] text-sky-300/80">{Math.round(weight * 100)}%</span>
+                  ) : null}
+                </span>
+              ))}
             </div>
-          );
-        })}
-      </div>
+          </div>
 
-      {profile.preferenceNotes ? (
-        <div className="mt-6 space-y-2">
-          <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-300">Preference Notes</h3>
-          <p className="text-sm text-slate-300">{profile.preferenceNotes}</p>
-        </div>
-      ) : null}
-
-      {sourceFocusEntries.length > 0 ? (
-        <div className="mt-6 space-y-3">
-          <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-300">Source Focus</h3>
-          <div className="space-y-2">
-            {sourceFocusEntries.map(([source, value]) => {
-              const clamped = Math.max(0, Math.min(1, value));
-              const percent = Math.round(clamped * 100);
+          <div className="mt-6 space-y-4">
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-300">Preferences</h3>
+            {(Object.keys(preferenceMap) as PreferenceKey[]).map((key) => {
+              const preference = profile.preferences[key];
+              const config = preferenceMap[key];
               return (
-                <div key={source} className="space-y-1">
-                  <div className="flex items-center justify-between text-xs text-slate-400">
-                    <span>{source}</span>
-                    <span className="text-slate-200">{percent}%</span>
+                <div key={key} className="space-y-1">
+                  <div className="flex items-center justify-between text-xs uppercase tracking-wide text-slate-400">
+                    <span>{config.label}</span>
+                    <span className="text-slate-200">{preference}</span>
                   </div>
                   <div className="h-2 w-full rounded-full bg-slate-800/80">
                     <div
-                      className="h-2 rounded-full bg-emerald-500 transition-all"
-                      style={{ width: `${percent}%` }}
+                      className="h-2 rounded-full bg-sky-500 transition-all"
+                      style={{ width: config.width[preference as keyof typeof config.width] || '50%' }}
                     />
                   </div>
+                  <p className="text-xs text-slate-400">{config.hints[preference as keyof typeof config.hints] || ''}</p>
                 </div>
               );
             })}
           </div>
-        </div>
-      ) : null}
+
+          {profile.preferenceNotes ? (
+            <div className="mt-6 space-y-2">
+              <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-300">Preference Notes</h3>
+              <p className="text-sm text-slate-300">{profile.preferenceNotes}</p>
+            </div>
+          ) : null}
+
+          {sourceFocusEntries.length > 0 ? (
+            <div className="mt-6 space-y-3">
+              <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-300">Source Focus</h3>
+              <div className="space-y-2">
+                {sourceFocusEntries.map(([source, value]) => {
+                  const clamped = Math.max(0, Math.min(1, value));
+                  const percent = Math.round(clamped * 100);
+                  return (
+                    <div key={source} className="space-y-1">
+                      <div className="flex items-center justify-between text-xs text-slate-400">
+                        <span>{source}</span>
+                        <span className="text-slate-200">{percent}%</span>
+                      </div>
+                      <div className="h-2 w-full rounded-full bg-slate-800/80">
+                        <div
+                          className="h-2 rounded-full bg-emerald-500 transition-all"
+                          style={{ width: `${percent}%` }}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ) : null}
+        </>
+      )}
 
       <div className="mt-6 border-t border-slate-800 pt-4">
         <button
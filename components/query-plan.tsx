@@ -0,0 +1,181 @@
+import { FormEvent, useState } from 'react';
+import { PlanMode, SourceQueryPlan } from '../types';
+
+interface QueryPlanProps {
+  plan: SourceQueryPlan;
+  mode: PlanMode;
+  /** Query limit per slot; the server trims edited plans to it. */
+  limits: Record<string, number>;
+  pinned?: SourceQueryPlan;
+  /** Enables editing; called with the edited plan and pins to re-fetch the changed queries. */
+  onRerun?: (plan: SourceQueryPlan, pinned: SourceQueryPlan) => void;
+  disabled?: boolean;
+}
+
+const modeLabels: Record<PlanMode, string> = {
+  llm: 'LLM-crafted queries',
+  fallback: 'Keyword fallback',
+  edited: 'Edited by you',
+  agent: 'Chosen by the orchestrator',
+};
+
+type DraftPlan = Record<string, Array<{ query: string; pinned: boolean }>>;
+
+function toDraft(plan: SourceQueryPlan, pinned: SourceQueryPlan = {}): DraftPlan {
+  return Object.fromEntries(
+    Object.entries(plan).map(([slot, queries]) => {
+      const pins = new Set((pinned[slot as keyof SourceQueryPlan] ?? []).map((query) => query.toLowerCase()));
+      return [slot, (queries ?? []).map((query) => ({ query, pinned: pins.has(query.toLowerCase()) }))];
+    }),
+  );
+}
+
+function fromDraft(draft: DraftPlan) {
+  const plan: Record<string, string[]> = {};
+  const pinned: Record<string, string[]> = {};
+  for (const [slot, entries] of Object.entries(draft)) {
+    const queries = entries.map((entry) => entry.query.trim()).filter(Boolean);
+    plan[slot] = queries;
+    const pins = entries.filter((entry) => entry.pinned && entry.query.trim()).map((entry) => entry.query.trim());
+    if (pins.length > 0) pinned[slot] = pins;
+  }
+  return { plan: plan as SourceQueryPlan, pinned: pinned as SourceQueryPlan };
+}
+
+export function QueryPlan({ plan, mode, limits, pinned = {}, onRerun, disabled }: QueryPlanProps) {
+  const [draft, setDraft] = useState<DraftPlan | null>(null);
+
+  const updateSlot = (slot: string, update: (entries: DraftPlan[string]) => DraftPlan[string]) => {
+    setDraft((prev) => (prev ? { ...prev, [slot]: update(prev[slot] ?? []) } : prev));
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!draft || !onRerun || disabled) {
+      return;
+    }
+    const edited = fromDraft(draft);
+    setDraft(null);
+    onRerun(edited.plan, edited.pinned);
+  };
+
+  return (
+    <section className="rounded-2xl border border-slate-700/60 bg-slate-950/70 p-6 shadow-lg">
+      <header className="mb-4 flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-semibold text-white">Query Plan</h2>
+          <p className="text-sm text-slate-400">Mode: {modeLabels[mode]}</p>
+        </div>
+        {onRerun && !draft ? (
+          <button
+            type="button"
+            onClick={() => setDraft(toDraft(plan, pinned))}
+            disabled={disabled}
+            className="rounded-md border border-slate-700/80 px-3 py-1.5 text-xs font-semibold text-slate-200 transition hover:border-sky-500/60 hover:text-white disabled:cursor-not-allowed disabled:text-slate-500"
+          >
+            Edit
+          </button>
+        ) : null}
+      </header>
+
+      {draft ? (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            {Object.entries(draft).map(([slot, entries]) => {
+              const limit = limits[slot] ?? entries.length;
+              return (
+                <div key={slot} className="space-y-2 rounded-xl border border-slate-800 bg-slate-900/70 p-4">
+                  <h3 className="flex items-center justify-between text-sm font-semibold uppercase tracking-wide text-slate-300">
+                    <span>{slot}</span>
+                    <span className="text-[11px] font-normal normal-case text-slate-500">at most {limit}</span>
+                  </h3>
+                  {entries.map((entry, index) => (
+                    <div key={index} className="flex items-center gap-1">
+                      <input
+                        type="text"
+                        value={entry.query}
+                        onChange={(event) => {
+                          const query = event.target.value;
+                          updateSlot(slot, (items) => items.map((item, position) => (position === index ? { ...item, query } : item)));
+                        }}
+                        className="min-w-0 flex-1 rounded-md border border-slate-700/80 bg-slate-950/80 px-2 py-1 text-xs text-white focus:border-sky-400 focus:outline-none"
+                      />
+                      <button
+                        type="button"
+                        onClick={() =>
+                          updateSlot(slot, (items) =>
+                            items.map((item, position) => (position === index ? { ...item, pinned: !item.pinned } : item)),
+                          )
+                        }
+                        className={`rounded-md border px-1.5 py-1 text-[11px] transition ${
+                          entry.pinned
+                            ? 'border-amber-500/70 bg-amber-500/10 text-amber-200'
+                            : 'border-slate-700/80 text-slate-400 hover:text-white'
+                        }`}
+                        title={entry.pinned ? 'Unpin from profile' : 'Pin to profile'}
+                      >
+                        {entry.pinned ? 'Pinned' : 'Pin'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => updateSlot(slot, (items) => items.filter((_, position) => position !== index))}
+                        className="rounded-md border border-slate-700/80 px-1.5 py-1 text-[11px] text-slate-400 transition hover:border-rose-500/60 hover:text-white"
+                        aria-label="Remove query"
+                      >
+                        ×
+                      </button>
+                    </div>
+                  ))}
+                  {entries.length < limit ? (
+                    <button
+                      type="button"
+                      onClick={() => updateSlot(slot, (items) => [...items, { query: '', pinned: false }])}
+                      className="text-xs text-sky-400 hover:underline"
+                    >
+                      Add query
+                    </button>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex items-center justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="rounded-md border border-slate-700/80 px-3 py-1.5 text-xs font-semibold text-slate-300 transition hover:border-slate-500 hover:text-white"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={disabled}
+              className="rounded-md bg-sky-500 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-slate-600"
+            >
+              Re-fetch changed queries
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-3">
+          {Object.entries(plan).map(([source, queries]) => {
+            const pins = new Set((pinned[source as keyof SourceQueryPlan] ?? []).map((query) => query.toLowerCase()));
+            return (
+              <div key={source} className="rounded-xl border border-slate-800 bg-slate-900/70 p-4">
+                <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-300">{source}</h3>
+                <ul className="mt-2 space-y-2 text-xs text-slate-300">
+                  {(queries ?? []).map((query) => (
+                    <li key={query} className="line-clamp-2">
+                      {pins.has(query.toLowerCase()) ? <span className="mr-1 text-amber-300" title="Pinned">★</span> : null}
+                      {query}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
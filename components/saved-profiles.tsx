@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useState } from 'react';
+import { getLensDescriptor } from '../lib/lenses';
+import { SavedProfile } from '../types';
+
+interface SavedProfilesProps {
+  /** Bump to reload the list, e.g. after a run saves a profile. */
+  reloadKey: number;
+  onRefresh: (profile: SavedProfile) => void;
+  onShowHistory: (profile: SavedProfile) => void;
+  disabled?: boolean;
+}
+
+export function SavedProfiles({ reloadKey, onRefresh, onShowHistory, disabled }: SavedProfilesProps) {
+  const [profiles, setProfiles] = useState<SavedProfile[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProfiles = useCallback(async () => {
+    try {
+      const response = await fetch('/api/profiles');
+      const payload = (await response.json()) as { profiles?: SavedProfile[] };
+      setProfiles(payload.profiles ?? []);
+    } catch {
+      setError('Unable to load saved profiles.');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles, reloadKey]);
+
+  const handleRemove = async (id: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/profiles?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+      const payload = (await response.json()) as { profiles?: SavedProfile[]; error?: string };
+      if (!response.ok) {
+        throw new Error(payload.error ?? 'Unable to remove saved profile.');
+      }
+      setProfiles(payload.profiles ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to remove saved profile.');
+    }
+  };
+
+  if (profiles.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <section className="rounded-2xl border border-slate-700/60 bg-slate-950/70 p-6 shadow-lg">
+      <header className="mb-4">
+        <h2 className="text-xl font-semibold text-white">Saved Profiles</h2>
+        <p className="text-sm text-slate-400">Refresh a feed without discovery or harvesting.</p>
+      </header>
+      {error ? <p className="mb-3 text-xs text-rose-300">{error}</p> : null}
+      <ul className="space-y-3">
+        {profiles.map((saved) => (
+          <li
+            key={saved.id}
+            className="flex items-center justify-between gap-3 rounded-xl border border-slate-800 bg-slate-900/70 p-4"
+          >
+            <div className="min-w-0">
+              <p className="truncate text-sm font-semibold text-sky-200">{saved.name}</p>
+              <p className="truncate text-xs text-slate-400">{saved.profile.keywords.slice(0, 4).join(' · ')}</p>
+              <p className="text-[11px] text-slate-500">
+                {getLensDescriptor(saved.profile.lens).label} lens · Updated {new Date(saved.updatedAt).toLocaleString()}
+              </p>
+            </div>
+            <div className="flex shrink-0 items-center gap-2">
+              <button
+                type="button"
+                onClick={() => onRefresh(saved)}
+                disabled={disabled}
+                className="rounded-md bg-sky-500 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-slate-600"
+              >
+                Refresh feed
+              </button>
+              <button
+                type="button"
+                onClick={() => onShowHistory(saved)}
+                className="rounded-md border border-slate-700/80 px-2 py-1.5 text-xs font-semibold text-slate-300 transition hover:border-sky-500/60 hover:text-white"
+              >
+                History
+              </button>
+              <button
+                type="button"
+                onClick={() => handleRemove(saved.id)}
+                disabled={disabled}
+                className="rounded-md border border-slate-700/80 px-2 py-1.5 text-xs font-semibold text-slate-300 transition hover:border-rose-500/60 hover:text-white disabled:cursor-not-allowed"
+              >
+                Remove
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,125 @@
+import { FormEvent, useCallback, useEffect, useState } from 'react';
+import { FeedSubscription } from '../types';
+
+const statusStyles: Record<NonNullable<FeedSubscription['lastStatus']>, string> = {
+  ok: 'text-emerald-300',
+  'not-modified': 'text-slate-400',
+  error: 'text-rose-300',
+};
+
+export function SubscriptionManager() {
+  const [subscriptions, setSubscriptions] = useState<FeedSubscription[]>([]);
+  const [url, setUrl] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSubscriptions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/subscriptions');
+      const payload = (await response.json()) as { subscriptions?: FeedSubscription[] };
+      setSubscriptions(payload.subscriptions ?? []);
+    } catch {
+      setError('Unable to load subscriptions.');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSubscriptions();
+  }, [loadSubscriptions]);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!url.trim() || isSaving) {
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/subscriptions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ url: url.trim() }),
+      });
+      const payload = (await response.json()) as { subscriptions?: FeedSubscription[]; error?: string };
+      if (!response.ok) {
+        throw new Error(payload.error ?? 'Unable to subscribe to feed.');
+      }
+      setSubscriptions(payload.subscriptions ?? []);
+      setUrl('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to subscribe to feed.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/subscriptions?id=${encodeURIComponent(id)}`, { method: 'DELETE' });
+      const payload = (await response.json()) as { subscriptions?: FeedSubscription[]; error?: string };
+      if (!response.ok) {
+        throw new Error(payload.error ?? 'Unable to remove subscription.');
+      }
+      setSubscriptions(payload.subscriptions ?? []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to remove subscription.');
+    }
+  };
+
+  return (
+    <section className="rounded-2xl border border-slate-700/60 bg-slate-950/80 p-4 shadow-inner">
+      <header className="mb-3">
+        <h2 className="text-lg font-semibold text-white">Subscriptions</h2>
+        <p className="text-xs text-slate-400">RSS, Atom or JSON Feed URLs ranked alongside the built-in sources.</p>
+      </header>
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="url"
+          value={url}
+          onChange={(event) => setUrl(event.target.value)}
+          placeholder="https://example.com/feed.xml"
+          className="min-w-0 flex-1 rounded-lg border border-slate-600/70 bg-slate-950/80 px-3 py-2 text-xs text-white placeholder-slate-500 focus:border-sky-400 focus:outline-none"
+          disabled={isSaving}
+        />
+        <button
+          type="submit"
+          disabled={isSaving || !url.trim()}
+          className="rounded-lg bg-sky-500 px-3 py-2 text-xs font-medium text-white transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-slate-600"
+        >
+          {isSaving ? 'Adding…' : 'Add'}
+        </button>
+      </form>
+      {error ? <p className="mt-2 text-xs text-rose-300">{error}</p> : null}
+      {subscriptions.length > 0 ? (
+        <ul className="mt-3 space-y-2">
+          {subscriptions.map((subscription) => (
+            <li key={subscription.id} className="flex items-start justify-between gap-2 rounded-lg border border-slate-800 bg-slate-900/70 p-2">
+              <div className="min-w-0">
+                <p className="truncate text-xs font-medium text-slate-200">{subscription.title}</p>
+                <p className="truncate text-[11px] text-slate-500">{subscription.url}</p>
+                {subscription.lastStatus ? (
+                  <p className={`text-[11px] ${statusStyles[subscription.lastStatus]}`}>
+                    {subscription.lastStatus === 'error'
+                      ? subscription.lastError ?? 'Last fetch failed.'
+                      : `${subscription.entryCount ?? 0} entries`}
+                    {subscription.lastFetchedAt ? ` · ${new Date(subscription.lastFetchedAt).toLocaleTimeString()}` : ''}
+                  </p>
+                ) : null}
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRemove(subscription.id)}
+                className="rounded-md border border-slate-700/80 px-2 py-1 text-[11px] font-semibold text-slate-300 transition hover:border-rose-500/60 hover:text-white"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,119 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { BudgetResource, BudgetUsage } from '../types';
+import { env } from './env';
+
+export type BudgetLimits = Record<BudgetResource, number>;
+
+export const budgetLabels: Record<BudgetResource, string> = {
+  llmCalls: 'LLM call',
+  inputTokens: 'LLM input token',
+  outputTokens: 'LLM output token',
+  httpRequests: 'HTTP request',
+  wallClockMs: 'time',
+};
+
+/**
+ * Thrown when a run has spent a budget. Callers already fall back when an LLM
+ * or HTTP call fails, so this degrades the run instead of aborting it.
+ */
+export class BudgetExceededError extends Error {
+  constructor(readonly resource: BudgetResource) {
+    super(`Run ${budgetLabels[resource]} budget exhausted.`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export interface RunBudget {
+  /** Throws if the resource (or the run's time) is spent, otherwise counts `amount` against it. */
+  charge: (resource: BudgetResource, amount?: number) => void;
+  /** Counts usage reported after the fact, such as tokens, without checking the limit. */
+  record: (resource: BudgetResource, amount: number) => void;
+  remainingMs: () => number;
+  usage: () => BudgetUsage;
+}
+
+const storage = new AsyncLocalStorage<RunBudget>();
+
+export function defaultBudgetLimits(): BudgetLimits {
+  return {
+    llmCalls: env.runMaxLlmCalls,
+    inputTokens: env.runMaxInputTokens,
+    outputTokens: env.runMaxOutputTokens,
+    httpRequests: env.runMaxHttpRequests,
+    wallClockMs: env.runMaxWallClockMs,
+  };
+}
+
+/** `onExhausted` fires once per resource, the first time a charge is refused. */
+export function createRunBudget(
+  limits: BudgetLimits = defaultBudgetLimits(),
+  onExhausted?: (resource: BudgetResource) => void,
+): RunBudget {
+  const startedAt = Date.now();
+  const used: Record<BudgetResource, number> = {
+    llmCalls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    httpRequests: 0,
+    wallClockMs: 0,
+  };
+  const exhausted = new Set<BudgetResource>();
+
+  const refuse = (resource: BudgetResource): never => {
+    if (!exhausted.has(resource)) {
+      exhausted.add(resource);
+      onExhausted?.(resource);
+    }
+    throw new BudgetExceededError(resource);
+  };
+
+  const elapsed = () => Date.now() - startedAt;
+
+  return {
+    charge(resource, amount = 1) {
+      if (elapsed() >= limits.wallClockMs) refuse('wallClockMs');
+      if (used[resource] >= limits[resource] || used[resource] + amount > limits[resource]) refuse(resource);
+      used[resource] += amount;
+    },
+    record(resource, amount) {
+      used[resource] += amount;
+    },
+    remainingMs: () => Math.max(0, limits.wallClockMs - elapsed()),
+    usage: () =>
+      Object.fromEntries(
+        (Object.keys(limits) as BudgetResource[]).map(resource => [
+          resource,
+          { used: resource === 'wallClockMs' ? elapsed() : used[resource], limit: limits[resource] },
+        ]),
+      ) as BudgetUsage,
+  };
+}
+
+/** Runs `task` with `budget` as the current budget for everything it awaits. */
+export function withRunBudget<T>(budget: RunBudget, task: () => Promise<T>): Promise<T> {
+  return storage.run(budget, task);
+}
+
+/** The budget of the run being executed, or undefined outside a run (e.g. discovery, deepen). */
+export function currentBudget(): RunBudget | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Inside a run, checks the token budgets and counts one LLM call against it.
+ * Returns how long the call may take, or undefined outside a run.
+ */
+export function chargeLlmCall(): number | undefined {
+  const budget = currentBudget();
+  if (!budget) return undefined;
+  budget.charge('inputTokens', 0);
+  budget.charge('outputTokens', 0);
+  budget.charge('llmCalls');
+  return budget.remainingMs();
+}
+
+export function recordLlmUsage(inputTokens: number, outputTokens: number) {
+  const budget = currentBudget();
+  budget?.record('inputTokens', inputTokens);
+  budget?.record('outputTokens', outputTokens);
+}
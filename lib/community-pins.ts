@@ -0,0 +1,71 @@
+import type { CommunityPin, CommunityPlatform } from '../types';
+import { globalSingleton } from './singleton';
+import { getStore } from './storage';
+
+const NAME_PATTERNS: Record<CommunityPlatform, RegExp> = {
+  reddit: /^[A-Za-z0-9_]{2,21}$/,
+  lobsters: /^[a-z0-9+.-]{1,25}$/,
+};
+
+const shared = globalSingleton('__neuralFeedCommunityPins', () => ({
+  pins: new Map<string, CommunityPin>(),
+  loaded: undefined as Promise<void> | undefined,
+}));
+const { pins } = shared;
+
+/**
+ * Reads the stored pins into memory once per process, for the connectors'
+ * synchronous query planning; changes are written through to the store.
+ */
+export function loadCommunityPins(): Promise<void> {
+  shared.loaded ??= getStore()
+    .listCommunityPins()
+    .then(stored => {
+      for (const pin of stored) {
+        if (!pins.has(pin.id)) pins.set(pin.id, pin);
+      }
+    })
+    .catch(error => {
+      shared.loaded = undefined;
+      throw error;
+    });
+  return shared.loaded;
+}
+
+export function isCommunityPlatform(value: unknown): value is CommunityPlatform {
+  return value === 'reddit' || value === 'lobsters';
+}
+
+export function normalizeCommunityName(platform: CommunityPlatform, name: string) {
+  const trimmed = name.trim().replace(/^\/?r\//i, '').replace(/^#/, '');
+  const normalized = platform === 'lobsters' ? trimmed.toLowerCase() : trimmed;
+  if (!NAME_PATTERNS[platform].test(normalized)) {
+    throw new Error(platform === 'reddit' ? 'Invalid subreddit name.' : 'Invalid Lobsters tag.');
+  }
+  return normalized;
+}
+
+/** Reads what `loadCommunityPins` loaded. */
+export function listCommunityPins(platform?: CommunityPlatform): CommunityPin[] {
+  const all = Array.from(pins.values());
+  return platform ? all.filter(pin => pin.platform === platform) : all;
+}
+
+export async function addCommunityPin(platform: CommunityPlatform, name: string): Promise<CommunityPin> {
+  const normalized = normalizeCommunityName(platform, name);
+  await loadCommunityPins();
+  const id = `${platform}:${normalized.toLowerCase()}`;
+  const existing = pins.get(id);
+  if (existing) {
+    return existing;
+  }
+  const pin = await getStore().saveCommunityPin({ id, platform, name: normalized, addedAt: new Date().toISOString() });
+  pins.set(id, pin);
+  return pin;
+}
+
+export async function removeCommunityPin(id: string) {
+  await loadCommunityPins();
+  const removed = await getStore().deleteCommunityPin(id);
+  return pins.delete(id) || removed;
+}
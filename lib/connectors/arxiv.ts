@@ -0,0 +1,73 @@
+import { fetchText } from '../http';
+import { getSourceDescriptor } from '../sources';
+import { extractLinkHref, extractTagContent, today, truncate } from '../text';
+import type { CandidateContent, SourceConnector } from './types';
+
+/** Bare arXiv identifier without URL prefix or version suffix, e.g. `2401.01234` or `cs/0112017`. */
+export function normalizeArxivId(value: string) {
+  const match = /(?:arxiv\.org\/(?:abs|pdf)\/|arxiv:)?([a-z-]+(?:\.[a-z]{2})?\/\d{7}|\d{4}\.\d{4,5})(?:v\d+)?/i.exec(value);
+  return match ? match[1].toLowerCase() : '';
+}
+
+function extractAuthors(block: string) {
+  const authors: string[] = [];
+  const authorRegex = /<author>([\s\S]*?)<\/author>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = authorRegex.exec(block))) {
+    const name = extractTagContent(match[1], 'name');
+    if (name) authors.push(name);
+  }
+  return authors;
+}
+
+async function fetchArxiv(query: string, count = 5): Promise<CandidateContent[]> {
+  try {
+    const url = new URL('https://export.arxiv.org/api/query');
+    url.searchParams.set('search_query', `all:${query}`);
+    url.searchParams.set('start', '0');
+    url.searchParams.set('max_results', String(count));
+
+    const response = await fetchText(url.toString(), {
+      headers: {
+        Accept: 'application/atom+xml',
+      },
+    });
+
+    const entries: CandidateContent[] = [];
+    const entryRegex = /<entry>([\s\S]*?)<\/entry>/gi;
+    let match: RegExpExecArray | null;
+    while ((match = entryRegex.exec(response))) {
+      const block = match[1];
+      const id = extractTagContent(block, 'id') || extractLinkHref(block) || `arxiv-${Math.random().toString(16).slice(2)}`;
+      const title = extractTagContent(block, 'title') || 'arXiv entry';
+      const summary = extractTagContent(block, 'summary');
+      const updated = extractTagContent(block, 'updated');
+      const link = extractLinkHref(block) || id;
+      const authors = extractAuthors(block);
+      entries.push({
+        id,
+        source: 'arxiv',
+        title,
+        snippet: truncate(summary || title, 360),
+        url: link,
+        date: updated ? updated.slice(0, 10) : today(),
+        author: authors[0],
+        paper: {
+          authors,
+          arxivId: normalizeArxivId(id) || undefined,
+          doi: extractTagContent(block, 'arxiv:doi') || undefined,
+        },
+      });
+      if (entries.length >= count) break;
+    }
+
+    return entries;
+  } catch {
+    return [];
+  }
+}
+
+export const arxivConnector: SourceConnector = {
+  descriptor: getSourceDescriptor('arxiv'),
+  fetch: fetchArxiv,
+};
@@ -0,0 +1,96 @@
+import { env } from '../env';
+import { fetchJson } from '../http';
+import { hashId } from '../ids';
+import { getSourceDescriptor } from '../sources';
+import { truncate } from '../text';
+import type { CandidateContent, SourceConnector } from './types';
+
+// Authenticated search goes through the account's PDS entryway, which proxies to the AppView.
+const BLUESKY_ENTRYWAY_URL = 'https://bsky.social';
+
+interface BlueskyPost {
+  uri: string;
+  author: { handle: string; displayName?: string };
+  record: { text?: string; createdAt?: string; reply?: unknown };
+  replyCount?: number;
+  repostCount?: number;
+  likeCount?: number;
+  quoteCount?: number;
+  indexedAt?: string;
+}
+
+let session: { accessJwt: string; expires: number } | null = null;
+
+/** App-password session when credentials are configured; the public AppView is used otherwise. */
+async function blueskyAuth(): Promise<{ baseUrl: string; headers: Record<string, string> }> {
+  if (!env.blueskyHandle || !env.blueskyAppPassword) {
+    return { baseUrl: env.blueskyApiBaseUrl.replace(/\/$/, ''), headers: {} };
+  }
+  if (!session || session.expires < Date.now()) {
+    const created = await fetchJson<{ accessJwt: string }>(`${BLUESKY_ENTRYWAY_URL}/xrpc/com.atproto.server.createSession`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ identifier: env.blueskyHandle, password: env.blueskyAppPassword }),
+    });
+    // Access tokens last about two hours; refresh well before that.
+    session = { accessJwt: created.accessJwt, expires: Date.now() + 60 * 60 * 1000 };
+  }
+  return { baseUrl: BLUESKY_ENTRYWAY_URL, headers: { Authorization: `Bearer ${session.accessJwt}` } };
+}
+
+/** `at://<did>/app.bsky.feed.post/<rkey>` → the bsky.app thread URL. */
+function threadUrl(post: BlueskyPost) {
+  const rkey = post.uri.split('/').pop();
+  return `https://bsky.app/profile/${post.author.handle}/post/${rkey}`;
+}
+
+async function fetchBlueskyPosts(query: string, count = 5): Promise<CandidateContent[]> {
+  try {
+    const { baseUrl, headers } = await blueskyAuth();
+    const url = new URL(`${baseUrl}/xrpc/app.bsky.feed.searchPosts`);
+    url.searchParams.set('q', query);
+    url.searchParams.set('sort', 'top');
+    url.searchParams.set('limit', String(Math.min(count * 3, 25)));
+    url.searchParams.set('since', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString());
+
+    const response = await fetchJson<{ posts?: BlueskyPost[] }>(url.toString(), { headers });
+    const items: CandidateContent[] = [];
+
+    for (const post of response.posts ?? []) {
+      const text = post.record.text?.trim();
+      // Replies lack the context to stand alone in a feed.
+      if (!text || post.record.reply) continue;
+      const postedAt = post.record.createdAt ?? post.indexedAt ?? new Date().toISOString();
+      const handle = `@${post.author.handle}`;
+      const url = threadUrl(post);
+      items.push({
+        id: hashId('bsky', post.uri),
+        source: 'bluesky',
+        title: truncate(text.split('\n')[0], 120),
+        snippet: truncate(text, 320),
+        url,
+        date: postedAt.slice(0, 10),
+        author: post.author.displayName ? `${post.author.displayName} (${handle})` : handle,
+        discussionUrl: url,
+        engagement: {
+          comments: post.replyCount ?? 0,
+          reposts: (post.repostCount ?? 0) + (post.quoteCount ?? 0),
+          likes: post.likeCount ?? 0,
+        },
+        social: { handle, postedAt },
+      });
+      if (items.length >= count) break;
+    }
+
+    return items;
+  } catch (error) {
+    console.error('[feed] fetchBlueskyPosts failed', error);
+    return [];
+  }
+}
+
+export const blueskyConnector: SourceConnector = {
+  descriptor: getSourceDescriptor('bluesky'),
+  fetch: fetchBlueskyPosts,
+  enabled: () => env.socialProviders.includes('bluesky'),
+};
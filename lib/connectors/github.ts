@@ -0,0 +1,131 @@
+import { env } from '../env';
+import { GITHUB_API_BASE_URL, githubHeaders } from '../github';
+import { fetchJson } from '../http';
+import { getSourceDescriptor } from '../sources';
+import { today, truncate } from '../text';
+import type { CandidateContent, SourceConnector } from './types';
+
+const PUSH_WINDOW_DAYS = 365;
+const RELEASE_WINDOW_DAYS = 60;
+// Per query, and only with GITHUB_TOKEN: anonymous clients get 10 searches a minute and 60 other calls an hour.
+const RELEASE_LOOKUPS = 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface GitHubRepo {
+  full_name: string;
+  html_url: string;
+  description?: string | null;
+  stargazers_count: number;
+  language?: string | null;
+  topics?: string[];
+  pushed_at: string;
+  created_at: string;
+  owner?: { login?: string };
+}
+
+interface GitHubRelease {
+  name?: string | null;
+  tag_name: string;
+  html_url: string;
+  body?: string | null;
+  published_at?: string | null;
+  draft: boolean;
+}
+
+/** Average stars gained per week since the repository was created. */
+function starVelocity(repo: GitHubRepo) {
+  const ageWeeks = Math.max(1, (Date.now() - new Date(repo.created_at).getTime()) / (7 * DAY_MS));
+  return Number((repo.stargazers_count / ageWeeks).toFixed(1));
+}
+
+function describeRepo(repo: GitHubRepo, velocity: number) {
+  const parts = [
+    repo.description || 'No description',
+    `${repo.stargazers_count} stars (~${velocity}/week)`,
+    repo.language ? `Language: ${repo.language}` : '',
+    repo.topics && repo.topics.length > 0 ? `Topics: ${repo.topics.slice(0, 5).join(', ')}` : '',
+  ];
+  return parts.filter(Boolean).join(' • ');
+}
+
+async function fetchRecentRelease(repo: GitHubRepo): Promise<GitHubRelease | null> {
+  try {
+    const releases = await fetchJson<GitHubRelease[]>(
+      `${GITHUB_API_BASE_URL}/repos/${repo.full_name}/releases?per_page=1`,
+      { headers: githubHeaders() },
+    );
+    const release = releases.find(entry => !entry.draft && entry.published_at);
+    if (!release?.published_at) return null;
+    const age = Date.now() - new Date(release.published_at).getTime();
+    return age <= RELEASE_WINDOW_DAYS * DAY_MS ? release : null;
+  } catch {
+    return null;
+  }
+}
+
+async function fetchGitHubRepos(query: string, count = 5): Promise<CandidateContent[]> {
+  try {
+    const pushedSince = new Date(Date.now() - PUSH_WINDOW_DAYS * DAY_MS).toISOString().slice(0, 10);
+    const url = new URL(`${GITHUB_API_BASE_URL}/search/repositories`);
+    url.searchParams.set('q', `${query} pushed:>${pushedSince} archived:false`);
+    url.searchParams.set('sort', 'stars');
+    url.searchParams.set('order', 'desc');
+    url.searchParams.set('per_page', String(count));
+
+    const response = await fetchJson<{ items?: GitHubRepo[] }>(url.toString(), { headers: githubHeaders() });
+    const repos = (response.items ?? []).slice(0, count);
+    const items: CandidateContent[] = [];
+
+    for (const repo of repos) {
+      const velocity = starVelocity(repo);
+      items.push({
+        id: `gh-${repo.full_name}`,
+        source: 'github',
+        title: repo.full_name,
+        snippet: truncate(describeRepo(repo, velocity), 320),
+        url: repo.html_url,
+        date: repo.pushed_at ? repo.pushed_at.slice(0, 10) : today(),
+        author: repo.owner?.login,
+        engagement: { stars: repo.stargazers_count, starVelocity: velocity },
+        repo: {
+          language: repo.language ?? undefined,
+          topics: repo.topics ?? [],
+          pushedAt: repo.pushed_at,
+        },
+      });
+    }
+
+    const releases = env.githubToken
+      ? await Promise.all(repos.slice(0, RELEASE_LOOKUPS).map(fetchRecentRelease))
+      : [];
+    releases.forEach((release, index) => {
+      if (!release) return;
+      const repo = repos[index];
+      items.push({
+        id: `gh-release-${repo.full_name}@${release.tag_name}`,
+        source: 'github',
+        title: `${repo.full_name} ${release.name || release.tag_name}`,
+        snippet: truncate(release.body || `New release of ${repo.full_name}. ${repo.description ?? ''}`, 320),
+        url: release.html_url,
+        date: release.published_at ? release.published_at.slice(0, 10) : today(),
+        author: repo.owner?.login,
+        engagement: { stars: repo.stargazers_count, starVelocity: starVelocity(repo) },
+        repo: {
+          language: repo.language ?? undefined,
+          topics: repo.topics ?? [],
+          pushedAt: repo.pushed_at,
+        },
+      });
+    });
+
+    return items;
+  } catch (error) {
+    console.error('[feed] fetchGitHubRepos failed', error);
+    return [];
+  }
+}
+
+export const githubConnector: SourceConnector = {
+  descriptor: getSourceDescriptor('github'),
+  fetch: fetchGitHubRepos,
+};
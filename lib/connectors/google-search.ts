@@ -0,0 +1,24 @@
+import { env } from '../env';
+import { fetchJson } from '../http';
+
+export interface GoogleSearchItem {
+  title?: string;
+  link?: string;
+  snippet?: string;
+}
+
+export function hasGoogleSearch() {
+  return Boolean(env.googleSearchKey && env.googleSearchCx);
+}
+
+export async function googleSearch(query: string, num: number): Promise<GoogleSearchItem[]> {
+  const url = new URL('https://www.googleapis.com/customsearch/v1');
+  url.searchParams.set('key', env.googleSearchKey);
+  url.searchParams.set('cx', env.googleSearchCx);
+  url.searchParams.set('q', query);
+  url.searchParams.set('num', String(num));
+  url.searchParams.set('safe', 'off');
+
+  const response = await fetchJson<{ items?: GoogleSearchItem[] }>(url.toString());
+  return response.items ?? [];
+}
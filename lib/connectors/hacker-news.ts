@@ -0,0 +1,69 @@
+import { env } from '../env';
+import { fetchJson } from '../http';
+import { getSourceDescriptor } from '../sources';
+import { stripHtml, today, truncate } from '../text';
+import type { CandidateContent, SourceConnector } from './types';
+
+const HN_WINDOW_DAYS = 180;
+
+interface AlgoliaHit {
+  objectID: string;
+  title?: string | null;
+  url?: string | null;
+  author?: string | null;
+  points?: number | null;
+  num_comments?: number | null;
+  created_at?: string | null;
+  story_text?: string | null;
+}
+
+function discussionUrlFor(objectId: string) {
+  return `https://news.ycombinator.com/item?id=${objectId}`;
+}
+
+async function fetchHackerNews(query: string, count = 5): Promise<CandidateContent[]> {
+  try {
+    const since = Math.floor(Date.now() / 1000) - HN_WINDOW_DAYS * 24 * 60 * 60;
+    const url = new URL(`${env.hnSearchBaseUrl.replace(/\/$/, '')}/search`);
+    url.searchParams.set('query', query);
+    url.searchParams.set('tags', 'story');
+    url.searchParams.set('numericFilters', `created_at_i>${since}`);
+    url.searchParams.set('hitsPerPage', String(Math.min(count * 2, 20)));
+
+    const response = await fetchJson<{ hits?: AlgoliaHit[] }>(url.toString());
+    const candidates: CandidateContent[] = [];
+
+    for (const hit of response.hits ?? []) {
+      if (!hit.objectID || !hit.title) continue;
+      const discussionUrl = discussionUrlFor(hit.objectID);
+      const points = hit.points ?? 0;
+      const comments = hit.num_comments ?? 0;
+      const storyText = hit.story_text ? stripHtml(hit.story_text) : '';
+      candidates.push({
+        id: `hn-${hit.objectID}`,
+        source: 'hn',
+        title: hit.title,
+        snippet: truncate(
+          storyText || `${points} points and ${comments} comments on Hacker News${hit.author ? `, submitted by ${hit.author}` : ''}.`,
+          320,
+        ),
+        url: hit.url || discussionUrl,
+        date: hit.created_at ? hit.created_at.slice(0, 10) : today(),
+        author: hit.author ?? undefined,
+        discussionUrl,
+        engagement: { points, comments },
+      });
+      if (candidates.length >= count) break;
+    }
+
+    return candidates;
+  } catch (error) {
+    console.error('[feed] fetchHackerNews failed', error);
+    return [];
+  }
+}
+
+export const hackerNewsConnector: SourceConnector = {
+  descriptor: getSourceDescriptor('hn'),
+  fetch: fetchHackerNews,
+};
@@ -0,0 +1,182 @@
+import { fetchJson } from '../http';
+import { HUGGINGFACE_BASE_URL, huggingfaceHeaders } from '../huggingface';
+import { getSourceDescriptor } from '../sources';
+import { today, truncate } from '../text';
+import { normalizeArxivId } from './arxiv';
+import type { CandidateContent, SourceConnector } from './types';
+
+// Hub tags that say nothing about the topic.
+const NOISE_TAG = /^(license:|region:|arxiv:|base_model:|dataset:|doi:|endpoints_compatible|autotrain_compatible|transformers$|safetensors$|pytorch$)/;
+
+interface HubRepo {
+  id: string;
+  likes?: number;
+  downloads?: number;
+  pipeline_tag?: string;
+  tags?: string[];
+  lastModified?: string;
+  createdAt?: string;
+  description?: string;
+}
+
+interface HubPaperResult {
+  paper?: {
+    id: string;
+    title?: string;
+    summary?: string;
+    upvotes?: number;
+    publishedAt?: string;
+    authors?: Array<{ name?: string }>;
+  };
+  title?: string;
+  publishedAt?: string;
+  numComments?: number;
+}
+
+function topicTags(tags: string[] = []) {
+  return tags.filter(tag => !NOISE_TAG.test(tag)).slice(0, 8);
+}
+
+function hubDate(repo: HubRepo) {
+  const value = repo.lastModified ?? repo.createdAt;
+  return value ? value.slice(0, 10) : today();
+}
+
+async function searchModels(query: string, count: number): Promise<CandidateContent[]> {
+  const url = new URL(`${HUGGINGFACE_BASE_URL}/api/models`);
+  url.searchParams.set('search', query);
+  url.searchParams.set('sort', 'likes');
+  url.searchParams.set('direction', '-1');
+  url.searchParams.set('limit', String(count));
+  url.searchParams.set('full', 'true');
+
+  const models = await fetchJson<HubRepo[]>(url.toString(), { headers: huggingfaceHeaders() });
+  return models.map(model => {
+    const [owner] = model.id.split('/');
+    const tags = topicTags(model.tags);
+    return {
+      id: `hf-model-${model.id}`,
+      source: 'hf' as const,
+      title: model.id,
+      snippet: truncate(
+        `${model.pipeline_tag ? `${model.pipeline_tag} model` : 'Model'} on the Hugging Face Hub${tags.length > 0 ? ` (${tags.slice(0, 5).join(', ')})` : ''}.`,
+        320,
+      ),
+      url: `${HUGGINGFACE_BASE_URL}/${model.id}`,
+      date: hubDate(model),
+      author: owner,
+      engagement: { likes: model.likes ?? 0, downloads: model.downloads ?? 0 },
+      hub: { kind: 'model' as const, task: model.pipeline_tag, tags },
+    };
+  });
+}
+
+async function searchDatasets(query: string, count: number): Promise<CandidateContent[]> {
+  const url = new URL(`${HUGGINGFACE_BASE_URL}/api/datasets`);
+  url.searchParams.set('search', query);
+  url.searchParams.set('sort', 'likes');
+  url.searchParams.set('direction', '-1');
+  url.searchParams.set('limit', String(count));
+  url.searchParams.set('full', 'true');
+
+  const datasets = await fetchJson<HubRepo[]>(url.toString(), { headers: huggingfaceHeaders() });
+  return datasets.map(dataset => {
+    const [owner] = dataset.id.split('/');
+    const tags = topicTags(dataset.tags);
+    return {
+      id: `hf-dataset-${dataset.id}`,
+      source: 'hf' as const,
+      title: dataset.id,
+      snippet: truncate(dataset.description || `Dataset on the Hugging Face Hub${tags.length > 0 ? ` (${tags.slice(0, 5).join(', ')})` : ''}.`, 320),
+      url: `${HUGGINGFACE_BASE_URL}/datasets/${dataset.id}`,
+      date: hubDate(dataset),
+      author: owner,
+      engagement: { likes: dataset.likes ?? 0, downloads: dataset.downloads ?? 0 },
+      hub: { kind: 'dataset' as const, tags },
+    };
+  });
+}
+
+async function searchPapers(query: string, count: number): Promise<CandidateContent[]> {
+  const url = new URL(`${HUGGINGFACE_BASE_URL}/api/papers/search`);
+  url.searchParams.set('q', query);
+
+  const results = await fetchJson<HubPaperResult[]>(url.toString(), { headers: huggingfaceHeaders() });
+  return results
+    .flatMap(result => (result.paper?.id ? [{ ...result, paper: result.paper }] : []))
+    .slice(0, count)
+    .map(result => {
+      const { paper } = result;
+      const authors = (paper.authors ?? []).map(author => author.name ?? '').filter(Boolean);
+      const published = paper.publishedAt ?? result.publishedAt;
+      return {
+        id: `hf-paper-${paper.id}`,
+        source: 'hf' as const,
+        title: paper.title ?? result.title ?? paper.id,
+        snippet: truncate(paper.summary ?? '', 360),
+        url: `${HUGGINGFACE_BASE_URL}/papers/${paper.id}`,
+        date: published ? published.slice(0, 10) : today(),
+        author: authors[0],
+        discussionUrl: `${HUGGINGFACE_BASE_URL}/papers/${paper.id}`,
+        engagement: { likes: paper.upvotes ?? 0, comments: result.numComments },
+        hub: { kind: 'paper' as const, tags: [] },
+        paper: { authors, arxivId: normalizeArxivId(paper.id) || undefined },
+      };
+    });
+}
+
+/** Interleaves models, datasets and papers so one kind does not crowd out the others. */
+async function fetchHuggingFace(query: string, count = 5): Promise<CandidateContent[]> {
+  // Each kind fails on its own, so a paper search outage still leaves models and datasets.
+  const lists = await Promise.all(
+    [searchModels, searchDatasets, searchPapers].map(search =>
+      search(query, count).catch(error => {
+        console.error('[feed] fetchHuggingFace failed', error);
+        return [] as CandidateContent[];
+      }),
+    ),
+  );
+
+  const items: CandidateContent[] = [];
+  for (let index = 0; items.length < count && lists.some(list => index < list.length); index += 1) {
+    for (const list of lists) {
+      if (list[index] && items.length < count) items.push(list[index]);
+    }
+  }
+  return items;
+}
+
+/**
+ * Daily-paper upvotes and comments are folded into the arXiv item for the same
+ * paper; Hub papers without an arXiv counterpart stay as their own items.
+ */
+function mergeHubPapers(items: CandidateContent[]): CandidateContent[] {
+  const byArxivId = new Map<string, CandidateContent>();
+  for (const item of items) {
+    if (item.source === 'hf' && item.hub?.kind === 'paper' && item.paper?.arxivId) {
+      byArxivId.set(item.paper.arxivId, item);
+    }
+  }
+  if (byArxivId.size === 0) return items;
+
+  const absorbed = new Set<string>();
+  const merged = items.map(item => {
+    if (item.source !== 'arxiv' || !item.paper?.arxivId) return item;
+    const hubPaper = byArxivId.get(item.paper.arxivId);
+    if (!hubPaper) return item;
+    absorbed.add(hubPaper.id);
+    return {
+      ...item,
+      discussionUrl: item.discussionUrl ?? hubPaper.discussionUrl,
+      engagement: { ...item.engagement, likes: hubPaper.engagement?.likes },
+    };
+  });
+
+  return merged.filter(item => !absorbed.has(item.id));
+}
+
+export const huggingFaceConnector: SourceConnector = {
+  descriptor: getSourceDescriptor('hf'),
+  fetch: fetchHuggingFace,
+  merge: mergeHubPapers,
+};
@@ -0,0 +1,113 @@
+import type { FeedSource, ProfileCardData } from '../../types';
+import { getSourceDescriptor, listSourceDescriptors, sourceBudget } from '../sources';
+import { arxivConnector } from './arxiv';
+import { blueskyConnector } from './bluesky';
+import { githubConnector } from './github';
+import { hackerNewsConnector } from './hacker-news';
+import { huggingFaceConnector } from './huggingface';
+import { lobstersConnector } from './lobsters';
+import { mastodonConnector } from './mastodon';
+import { newsConnector } from './news';
+import { podcastConnector } from './podcast';
+import { redditConnector } from './reddit';
+import { rssConnector } from './rss';
+import { scholarConnector } from './scholar';
+import type { CandidateContent, SourceConnector } from './types';
+import { videoConnector } from './video';
+import { xConnector } from './x';
+
+export type { CandidateContent, SourceConnector } from './types';
+
+const connectors = new Map<FeedSource, SourceConnector>();
+
+export function registerConnector(connector: SourceConnector) {
+  connectors.set(connector.descriptor.id, connector);
+}
+
+[
+  arxivConnector,
+  scholarConnector,
+  hackerNewsConnector,
+  redditConnector,
+  lobstersConnector,
+  githubConnector,
+  huggingFaceConnector,
+  videoConnector,
+  podcastConnector,
+  newsConnector,
+  xConnector,
+  blueskyConnector,
+  mastodonConnector,
+  rssConnector,
+].forEach(registerConnector);
+
+/**
+ * Enabled connectors in descriptor order, followed by any registered without a shared descriptor.
+ */
+export function listConnectors(): SourceConnector[] {
+  const ordered = listSourceDescriptors()
+    .map(descriptor => connectors.get(descriptor.id))
+    .filter((connector): connector is SourceConnector => Boolean(connector));
+  const extras = Array.from(connectors.values()).filter(connector => !ordered.includes(connector));
+  return [...ordered, ...extras].filter(connector => connector.enabled?.() ?? true);
+}
+
+/** Runs every connector's `prepare` hook; await it before planning or gathering. */
+export async function prepareConnectors() {
+  await Promise.all(Array.from(connectors.values()).map(connector => connector.prepare?.()));
+}
+
+export function getConnector(id: FeedSource): SourceConnector | undefined {
+  return connectors.get(id);
+}
+
+/**
+ * Dedupes gathered items by id and runs every connector's `merge` hook, then
+ * trims to `limit` without letting the first sources crowd out the rest:
+ * sources take turns one item at a time until each has its `perSourceCap`
+ * (boosted for the preferred format), then take turns with what is left.
+ * Each source keeps its items in gathered order.
+ */
+export function mergeCandidates(
+  items: CandidateContent[],
+  limit: number,
+  preferences?: ProfileCardData['preferences'],
+): CandidateContent[] {
+  let merged: CandidateContent[] = [];
+  const seen = new Set<string>();
+  for (const item of items) {
+    if (!seen.has(item.id)) {
+      merged.push(item);
+      seen.add(item.id);
+    }
+  }
+  for (const connector of listConnectors()) {
+    if (connector.merge) {
+      merged = connector.merge(merged);
+    }
+  }
+
+  const queues = new Map<FeedSource, CandidateContent[]>();
+  for (const item of merged) {
+    queues.set(item.source, [...(queues.get(item.source) ?? []), item]);
+  }
+  const interleaved: CandidateContent[] = [];
+  const taken = new Map<FeedSource, number>();
+  const takeTurns = (quota: (source: FeedSource) => number) => {
+    let progressed = true;
+    while (progressed) {
+      progressed = false;
+      for (const [source, queue] of queues) {
+        const count = taken.get(source) ?? 0;
+        if (queue.length > 0 && count < quota(source)) {
+          interleaved.push(queue.shift() as CandidateContent);
+          taken.set(source, count + 1);
+          progressed = true;
+        }
+      }
+    }
+  };
+  takeTurns(source => sourceBudget(getSourceDescriptor(source), preferences).perSourceCap);
+  takeTurns(() => Infinity);
+  return interleaved.slice(0, limit);
+}
@@ -0,0 +1,115 @@
+import type { ProfileCardData } from '../../types';
+import { listCommunityPins, loadCommunityPins } from '../community-pins';
+import { fetchJson } from '../http';
+import { getSourceDescriptor } from '../sources';
+import { today, truncate } from '../text';
+import type { CandidateContent, SourceConnector } from './types';
+
+const LOBSTERS_BASE_URL = 'https://lobste.rs';
+
+const LOBSTERS_TAGS = new Set([
+  'ai', 'api', 'art', 'browsers', 'c', 'c++', 'clojure', 'compilers', 'compsci', 'crypto', 'databases',
+  'design', 'devops', 'distributed', 'dotnet', 'education', 'elixir', 'erlang', 'formalmethods', 'games',
+  'go', 'graphics', 'hardware', 'haskell', 'java', 'javascript', 'julia', 'linux', 'lisp', 'math', 'ml',
+  'networking', 'nix', 'ocaml', 'osdev', 'performance', 'person', 'philosophy', 'plt', 'practices',
+  'privacy', 'programming', 'python', 'release', 'reversing', 'ruby', 'rust', 'scaling', 'science',
+  'security', 'swift', 'testing', 'unix', 'vcs', 'virtualization', 'wasm', 'web', 'zig',
+]);
+
+// Common profile phrasings that do not literally match a tag.
+const TAG_SYNONYMS: Array<[RegExp, string]> = [
+  [/machine learning|deep learning|neural|reinforcement learning/, 'ml'],
+  [/artificial intelligence|\bllms?\b|language model|\bagents?\b|\bgpt/, 'ai'],
+  [/distributed system|consensus/, 'distributed'],
+  [/\bdatabase|\bsql\b/, 'databases'],
+  [/programming language|type system|type theory/, 'plt'],
+  [/operating system|kernel/, 'osdev'],
+  [/compiler/, 'compilers'],
+  [/cryptograph/, 'crypto'],
+  [/\bgpu|hardware|chip/, 'hardware'],
+  [/webassembly/, 'wasm'],
+  [/theoretical computer science|algorithm/, 'compsci'],
+];
+
+interface LobstersStory {
+  short_id: string;
+  title: string;
+  url?: string;
+  score?: number;
+  comment_count?: number;
+  created_at?: string;
+  comments_url?: string;
+  description_plain?: string;
+  description?: string;
+  submitter_user?: string | { username?: string };
+  tags?: string[];
+}
+
+function tagsFor(text: string) {
+  const lower = text.toLowerCase().trim();
+  const tags: string[] = [];
+  if (LOBSTERS_TAGS.has(lower)) tags.push(lower);
+  for (const token of lower.split(/[^a-z0-9+]+/)) {
+    if (LOBSTERS_TAGS.has(token)) tags.push(token);
+  }
+  for (const [pattern, tag] of TAG_SYNONYMS) {
+    if (pattern.test(lower)) tags.push(tag);
+  }
+  return tags;
+}
+
+async function fetchLobstersStories(tag: string, count = 5): Promise<CandidateContent[]> {
+  const normalized = tag.trim().toLowerCase().replace(/^#/, '');
+  if (!normalized) return [];
+
+  try {
+    const stories = await fetchJson<LobstersStory[]>(`${LOBSTERS_BASE_URL}/t/${encodeURIComponent(normalized)}.json`);
+    return [...stories]
+      .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+      .slice(0, count)
+      .map(story => {
+        const discussionUrl = story.comments_url || `${LOBSTERS_BASE_URL}/s/${story.short_id}`;
+        const submitter =
+          typeof story.submitter_user === 'string' ? story.submitter_user : story.submitter_user?.username;
+        const points = story.score ?? 0;
+        const comments = story.comment_count ?? 0;
+        return {
+          id: `lobsters-${story.short_id}`,
+          source: 'lobsters' as const,
+          title: story.title,
+          snippet: truncate(
+            story.description_plain ||
+              `${points} points and ${comments} comments on Lobsters (${(story.tags ?? [normalized]).join(', ')}).`,
+            320,
+          ),
+          url: story.url || discussionUrl,
+          date: story.created_at ? new Date(story.created_at).toISOString().slice(0, 10) : today(),
+          author: submitter,
+          discussionUrl,
+          community: `lobsters #${normalized}`,
+          engagement: { points, comments },
+        };
+      });
+  } catch (error) {
+    console.error('[feed] fetchLobstersStories failed', error);
+    return [];
+  }
+}
+
+/**
+ * Lobsters is browsed by tag, so planned queries (LLM tags or fallback keywords)
+ * are mapped onto known tags, with pinned tags first.
+ */
+function planLobstersTags(planned: string[], profile: ProfileCardData) {
+  const pinned = listCommunityPins('lobsters').map(pin => pin.name);
+  const fromPlan = planned.flatMap(tagsFor);
+  const fromKeywords = profile.keywords.flatMap(tagsFor);
+  return [...pinned, ...fromPlan, ...fromKeywords];
+}
+
+export const lobstersConnector: SourceConnector = {
+  descriptor: getSourceDescriptor('lobsters'),
+  fetch: fetchLobstersStories,
+  prepare: loadCommunityPins,
+  planQueries: planLobstersTags,
+};
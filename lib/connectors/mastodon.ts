@@ -0,0 +1,105 @@
+import { env } from '../env';
+import { fetchJson } from '../http';
+import { getSourceDescriptor } from '../sources';
+import { stripHtml, truncate } from '../text';
+import type { CandidateContent, SourceConnector } from './types';
+
+interface MastodonStatus {
+  id: string;
+  created_at: string;
+  url?: string | null;
+  uri: string;
+  content: string;
+  sensitive?: boolean;
+  spoiler_text?: string;
+  in_reply_to_id?: string | null;
+  replies_count?: number;
+  reblogs_count?: number;
+  favourites_count?: number;
+  account: { acct: string; display_name?: string };
+}
+
+function instanceUrl() {
+  return env.mastodonInstanceUrl.replace(/\/$/, '');
+}
+
+/** Remote accounts already carry their instance in `acct`; local ones get the configured host. */
+function accountHandle(acct: string) {
+  return acct.includes('@') ? `@${acct}` : `@${acct}@${new URL(instanceUrl()).hostname}`;
+}
+
+/** "#rustlang" or "machine learning" → "rustlang" / "machinelearning". */
+function hashtagFor(query: string) {
+  const explicit = /#(\w+)/.exec(query);
+  if (explicit) return explicit[1];
+  return query.toLowerCase().replace(/[^a-z0-9_]+/g, '');
+}
+
+async function loadStatuses(query: string, limit: number) {
+  const headers: Record<string, string> = {};
+  if (env.mastodonAccessToken) {
+    headers.Authorization = `Bearer ${env.mastodonAccessToken}`;
+  }
+
+  // Full-text status search needs a token; without one, read the hashtag timeline.
+  if (env.mastodonAccessToken && !query.trim().startsWith('#')) {
+    const url = new URL(`${instanceUrl()}/api/v2/search`);
+    url.searchParams.set('q', query);
+    url.searchParams.set('type', 'statuses');
+    url.searchParams.set('limit', String(limit));
+    const response = await fetchJson<{ statuses?: MastodonStatus[] }>(url.toString(), { headers });
+    return response.statuses ?? [];
+  }
+
+  const hashtag = hashtagFor(query);
+  if (!hashtag) return [];
+  const url = new URL(`${instanceUrl()}/api/v1/timelines/tag/${encodeURIComponent(hashtag)}`);
+  url.searchParams.set('limit', String(limit));
+  return fetchJson<MastodonStatus[]>(url.toString(), { headers });
+}
+
+async function fetchMastodonPosts(query: string, count = 5): Promise<CandidateContent[]> {
+  try {
+    const statuses = await loadStatuses(query, Math.min(count * 4, 40));
+    return statuses
+      .filter(status => !status.sensitive && !status.spoiler_text && !status.in_reply_to_id)
+      .map(status => ({ status, text: stripHtml(status.content) }))
+      .filter(({ text }) => text.length > 0)
+      // Timelines are chronological; surface the posts people engaged with.
+      .sort(
+        (a, b) =>
+          (b.status.favourites_count ?? 0) + (b.status.reblogs_count ?? 0) -
+          ((a.status.favourites_count ?? 0) + (a.status.reblogs_count ?? 0)),
+      )
+      .slice(0, count)
+      .map(({ status, text }) => {
+        const handle = accountHandle(status.account.acct);
+        const url = status.url || status.uri;
+        return {
+          id: `masto-${new URL(url).hostname}-${status.id}`,
+          source: 'mastodon' as const,
+          title: truncate(text, 120),
+          snippet: truncate(text, 320),
+          url,
+          date: status.created_at.slice(0, 10),
+          author: status.account.display_name ? `${status.account.display_name} (${handle})` : handle,
+          discussionUrl: url,
+          engagement: {
+            comments: status.replies_count ?? 0,
+            reposts: status.reblogs_count ?? 0,
+            likes: status.favourites_count ?? 0,
+          },
+          social: { handle, postedAt: status.created_at },
+        };
+      });
+  } catch (error) {
+    console.error('[feed] fetchMastodonPosts failed', error);
+    return [];
+  }
+}
+
+export const mastodonConnector: SourceConnector = {
+  descriptor: getSourceDescriptor('mastodon'),
+  fetch: fetchMastodonPosts,
+  enabled: () => env.socialProviders.includes('mastodon'),
+};
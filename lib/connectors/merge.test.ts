@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type { FeedSource } from '../../types';
+import { mergeCandidates } from './index';
+import type { CandidateContent } from './types';
+
+function candidates(source: FeedSource, count: number): CandidateContent[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `${source}-${index}`,
+    source,
+    title: `${source} item ${index}`,
+    snippet: '',
+    url: `https://example.com/${source}/${index}`,
+    date: '2024-01-01',
+  }));
+}
+
+const gathered = [
+  ...candidates('arxiv', 12),
+  ...candidates('hn', 12),
+  ...candidates('reddit', 12),
+  ...candidates('github', 8),
+  ...candidates('news', 3),
+  ...candidates('video', 3),
+  ...candidates('podcast', 3),
+  ...candidates('bluesky', 3),
+  ...candidates('rss', 3),
+];
+
+test('every gathered source survives trimming to the candidate target', () => {
+  const merged = mergeCandidates(gathered, 30);
+  assert.equal(merged.length, 30);
+  assert.deepEqual(
+    new Set(merged.map(item => item.source)),
+    new Set(gathered.map(item => item.source)),
+  );
+});
+
+test('a source keeps its gathered order', () => {
+  const arxiv = mergeCandidates(gathered, 30).filter(item => item.source === 'arxiv');
+  assert.deepEqual(arxiv.map(item => item.id), arxiv.map((_, index) => `arxiv-${index}`));
+});
+
+test('the preferred format gets a larger share', () => {
+  const count = (items: CandidateContent[]) => items.filter(item => item.source === 'github').length;
+  const plain = mergeCandidates(gathered, 30);
+  const boosted = mergeCandidates(gathered, 30, { depth: 'mixed', format: 'code', novelty: 'medium' });
+  assert.ok(count(boosted) > count(plain));
+});
@@ -0,0 +1,46 @@
+import { parseFeed } from '../feed-parser';
+import { fetchText } from '../http';
+import { hashId } from '../ids';
+import { getSourceDescriptor } from '../sources';
+import { today, truncate } from '../text';
+import type { CandidateContent, SourceConnector } from './types';
+
+async function fetchNewsArticles(query: string, count = 5): Promise<CandidateContent[]> {
+  try {
+    const url = new URL('https://news.google.com/rss/search');
+    url.searchParams.set('q', `${query} when:7d`);
+    url.searchParams.set('hl', 'en-US');
+    url.searchParams.set('gl', 'US');
+    url.searchParams.set('ceid', 'US:en');
+
+    const xml = await fetchText(url.toString(), {
+      headers: {
+        Accept: 'application/rss+xml,text/xml',
+      },
+    });
+
+    const items: CandidateContent[] = [];
+    for (const entry of parseFeed(xml).entries) {
+      if (!entry.url) continue;
+      const title = entry.title || 'News article';
+      items.push({
+        id: hashId('news', entry.url),
+        source: 'news',
+        title,
+        snippet: truncate(entry.summary || title, 260),
+        url: entry.url,
+        date: entry.published ? entry.published.slice(0, 10) : today(),
+      });
+      if (items.length >= count) break;
+    }
+    return items;
+  } catch (error) {
+    console.error('[feed] fetchNewsArticles failed', error);
+    return [];
+  }
+}
+
+export const newsConnector: SourceConnector = {
+  descriptor: getSourceDescriptor('news'),
+  fetch: fetchNewsArticles,
+};
@@ -0,0 +1,119 @@
+import { parseFeed } from '../feed-parser';
+import type { ParsedFeed } from '../feed-parser';
+import { USER_AGENT, fetchJson, fetchWithTimeout } from '../http';
+import { hashId } from '../ids';
+import { getSourceDescriptor } from '../sources';
+import { queryTerms, today, truncate } from '../text';
+import type { CandidateContent, SourceConnector } from './types';
+
+const PODCAST_DIRECTORY_URL = 'https://itunes.apple.com/search';
+const SHOWS_PER_QUERY = 4;
+const EPISODE_WINDOW_DAYS = 180;
+const SHOW_FEED_TTL_MS = 30 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface PodcastDirectoryResponse {
+  results?: Array<{
+    collectionId: number;
+    collectionName?: string;
+    collectionViewUrl?: string;
+    feedUrl?: string;
+  }>;
+}
+
+const showFeeds = new Map<string, { feed: ParsedFeed; fetchedAt: number }>();
+
+async function loadShowFeed(feedUrl: string) {
+  const cached = showFeeds.get(feedUrl);
+  if (cached && Date.now() - cached.fetchedAt < SHOW_FEED_TTL_MS) {
+    return cached.feed;
+  }
+  const res = await fetchWithTimeout(feedUrl, {
+    headers: { 'User-Agent': USER_AGENT, Accept: 'application/rss+xml, application/xml;q=0.9, */*;q=0.8' },
+  });
+  if (!res.ok) {
+    throw new Error(`HTTP ${res.status} for ${feedUrl}`);
+  }
+  const feed = parseFeed(await res.text());
+  showFeeds.set(feedUrl, { feed, fetchedAt: Date.now() });
+  return feed;
+}
+
+/**
+ * Finds shows in the Apple Podcasts directory, then reads each show's RSS and keeps
+ * recent audio episodes whose title or show notes match the query.
+ */
+async function fetchPodcastEpisodes(query: string, count = 5): Promise<CandidateContent[]> {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [];
+
+  try {
+    const url = new URL(PODCAST_DIRECTORY_URL);
+    url.searchParams.set('media', 'podcast');
+    url.searchParams.set('entity', 'podcast');
+    url.searchParams.set('term', query);
+    url.searchParams.set('limit', String(SHOWS_PER_QUERY));
+
+    const directory = await fetchJson<PodcastDirectoryResponse>(url.toString());
+    const shows = (directory.results ?? []).filter(show => show.feedUrl);
+    const feeds = await Promise.all(
+      shows.map(show =>
+        loadShowFeed(show.feedUrl as string)
+          .then(feed => ({ show, feed }))
+          .catch(error => {
+            console.error('[feed] loadShowFeed failed', show.feedUrl, error);
+            return null;
+          }),
+      ),
+    );
+
+    const cutoff = Date.now() - EPISODE_WINDOW_DAYS * DAY_MS;
+    const scored: Array<{ item: CandidateContent; score: number; time: number }> = [];
+    for (const entry of feeds) {
+      if (!entry) continue;
+      const showName = entry.show.collectionName || entry.feed.title || 'Podcast';
+      for (const episode of entry.feed.entries) {
+        const enclosure = episode.enclosure;
+        if (!enclosure || (enclosure.type && !enclosure.type.startsWith('audio/'))) continue;
+        const time = episode.published ? new Date(episode.published).getTime() : 0;
+        if (time < cutoff) continue;
+        const notes = episode.content || episode.summary;
+        const text = `${episode.title} ${notes}`.toLowerCase();
+        const score = terms.filter(term => text.includes(term)).length;
+        if (score === 0) continue;
+        scored.push({
+          score,
+          time,
+          item: {
+            id: hashId('pod', enclosure.url),
+            source: 'podcast',
+            title: episode.title,
+            snippet: truncate(notes || `New episode of ${showName}.`, 320),
+            url: episode.url || entry.show.collectionViewUrl || enclosure.url,
+            date: episode.published ? episode.published.slice(0, 10) : today(),
+            author: episode.author ?? showName,
+            audio: {
+              show: showName,
+              url: enclosure.url,
+              type: enclosure.type,
+              durationSeconds: episode.durationSeconds,
+            },
+          },
+        });
+      }
+    }
+
+    return scored
+      .sort((a, b) => b.score - a.score || b.time - a.time)
+      .slice(0, count)
+      .map(entry => entry.item);
+  } catch (error) {
+    console.error('[feed] fetchPodcastEpisodes failed', error);
+    return [];
+  }
+}
+
+export const podcastConnector: SourceConnector = {
+  descriptor: getSourceDescriptor('podcast'),
+  fetch: fetchPodcastEpisodes,
+};
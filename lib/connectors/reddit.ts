@@ -0,0 +1,135 @@
+import type { ProfileCardData } from '../../types';
+import { listCommunityPins, loadCommunityPins } from '../community-pins';
+import { env } from '../env';
+import { fetchJson } from '../http';
+import { getSourceDescriptor } from '../sources';
+import { today, truncate } from '../text';
+import type { CandidateContent, SourceConnector } from './types';
+
+const REDDIT_PUBLIC_BASE_URL = 'https://www.reddit.com';
+const REDDIT_OAUTH_BASE_URL = 'https://oauth.reddit.com';
+
+interface RedditPost {
+  id: string;
+  title: string;
+  selftext?: string;
+  url?: string;
+  permalink: string;
+  subreddit: string;
+  author?: string;
+  score?: number;
+  num_comments?: number;
+  created_utc?: number;
+  is_self?: boolean;
+  over_18?: boolean;
+}
+
+interface RedditListing {
+  data?: { children?: Array<{ kind: string; data: RedditPost }> };
+}
+
+let appToken: { value: string; expires: number } | null = null;
+
+/** App-only OAuth token when credentials are configured; the public JSON endpoints are used otherwise. */
+async function redditAuth(): Promise<{ baseUrl: string; headers: Record<string, string> }> {
+  if (!env.redditClientId || !env.redditClientSecret) {
+    return { baseUrl: REDDIT_PUBLIC_BASE_URL, headers: {} };
+  }
+  if (!appToken || appToken.expires < Date.now()) {
+    const credentials = Buffer.from(`${env.redditClientId}:${env.redditClientSecret}`).toString('base64');
+    const token = await fetchJson<{ access_token: string; expires_in: number }>(
+      `${REDDIT_PUBLIC_BASE_URL}/api/v1/access_token`,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${credentials}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: 'grant_type=client_credentials',
+      },
+    );
+    appToken = { value: token.access_token, expires: Date.now() + (token.expires_in - 60) * 1000 };
+  }
+  return { baseUrl: REDDIT_OAUTH_BASE_URL, headers: { Authorization: `Bearer ${appToken.value}` } };
+}
+
+/** Splits `r/<subreddit> terms` into its community and search terms. */
+function parseRedditQuery(query: string) {
+  const match = /^\/?r\/([A-Za-z0-9_]{2,21})\b\s*(.*)$/i.exec(query.trim());
+  if (!match) {
+    return { subreddit: null, terms: query.trim() };
+  }
+  return { subreddit: match[1], terms: match[2].trim() };
+}
+
+async function fetchRedditPosts(query: string, count = 5): Promise<CandidateContent[]> {
+  try {
+    const { subreddit, terms } = parseRedditQuery(query);
+    const { baseUrl, headers } = await redditAuth();
+
+    let url: URL;
+    if (subreddit && !terms) {
+      url = new URL(`${baseUrl}/r/${subreddit}/top.json`);
+      url.searchParams.set('t', 'week');
+    } else {
+      url = new URL(subreddit ? `${baseUrl}/r/${subreddit}/search.json` : `${baseUrl}/search.json`);
+      url.searchParams.set('q', terms);
+      url.searchParams.set('sort', 'relevance');
+      url.searchParams.set('t', 'month');
+      if (subreddit) url.searchParams.set('restrict_sr', '1');
+    }
+    url.searchParams.set('limit', String(Math.min(count * 2, 25)));
+    url.searchParams.set('raw_json', '1');
+
+    const listing = await fetchJson<RedditListing>(url.toString(), { headers });
+    const items: CandidateContent[] = [];
+
+    for (const child of listing.data?.children ?? []) {
+      const post = child.data;
+      if (child.kind !== 't3' || !post?.id || post.over_18) continue;
+      const discussionUrl = `https://www.reddit.com${post.permalink}`;
+      const points = post.score ?? 0;
+      const comments = post.num_comments ?? 0;
+      items.push({
+        id: `reddit-${post.id}`,
+        source: 'reddit',
+        title: post.title,
+        snippet: truncate(
+          post.selftext || `${points} points and ${comments} comments in r/${post.subreddit}.`,
+          320,
+        ),
+        url: post.is_self || !post.url ? discussionUrl : post.url,
+        date: post.created_utc ? new Date(post.created_utc * 1000).toISOString().slice(0, 10) : today(),
+        author: post.author,
+        discussionUrl,
+        community: `r/${post.subreddit}`,
+        engagement: { points, comments },
+      });
+      if (items.length >= count) break;
+    }
+
+    return items;
+  } catch (error) {
+    console.error('[feed] fetchRedditPosts failed', error);
+    return [];
+  }
+}
+
+function topKeyword(profile: ProfileCardData) {
+  const weighted = [...(profile.keywordWeights ?? [])].sort((a, b) => b.weight - a.weight);
+  return weighted[0]?.keyword ?? profile.keywords[0] ?? '';
+}
+
+/** Pinned subreddits always get a query, searched for the profile's strongest keyword. */
+function planRedditQueries(planned: string[], profile: ProfileCardData) {
+  const keyword = topKeyword(profile);
+  const pinned = listCommunityPins('reddit').map(pin => `r/${pin.name}${keyword ? ` ${keyword}` : ''}`);
+  return [...pinned, ...planned];
+}
+
+export const redditConnector: SourceConnector = {
+  descriptor: getSourceDescriptor('reddit'),
+  fetch: fetchRedditPosts,
+  prepare: loadCommunityPins,
+  planQueries: planRedditQueries,
+};
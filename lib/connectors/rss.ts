@@ -0,0 +1,62 @@
+import { hashId } from '../ids';
+import { getSourceDescriptor } from '../sources';
+import { hasSubscriptions, loadSubscriptionEntries, loadSubscriptions } from '../subscriptions';
+import { queryTerms, today, truncate } from '../text';
+import type { CandidateContent, SourceConnector } from './types';
+
+const RSS_WINDOW_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Subscriptions are not searchable, so each planned query is matched against
+ * the cached entries of every subscribed feed instead.
+ */
+async function fetchSubscribedEntries(query: string, count = 5): Promise<CandidateContent[]> {
+  try {
+    const terms = queryTerms(query);
+    if (terms.length === 0) return [];
+
+    const feeds = await loadSubscriptionEntries();
+    const cutoff = Date.now() - RSS_WINDOW_DAYS * DAY_MS;
+    const scored: Array<{ item: CandidateContent; score: number; time: number }> = [];
+
+    for (const { subscription, entries } of feeds) {
+      for (const entry of entries) {
+        if (!entry.url) continue;
+        const time = entry.published ? new Date(entry.published).getTime() : Date.now();
+        if (time < cutoff) continue;
+        const text = `${entry.title} ${entry.summary} ${entry.content}`.toLowerCase();
+        const score = terms.filter(term => text.includes(term)).length;
+        if (score === 0) continue;
+        scored.push({
+          score,
+          time,
+          item: {
+            id: hashId('rss', entry.url),
+            source: 'rss',
+            title: entry.title,
+            snippet: truncate(entry.summary || entry.content || `New post from ${subscription.title}.`, 320),
+            url: entry.url,
+            date: entry.published ? entry.published.slice(0, 10) : today(),
+            author: entry.author ?? subscription.title,
+          },
+        });
+      }
+    }
+
+    return scored
+      .sort((a, b) => b.score - a.score || b.time - a.time)
+      .slice(0, count)
+      .map(entry => entry.item);
+  } catch (error) {
+    console.error('[feed] fetchSubscribedEntries failed', error);
+    return [];
+  }
+}
+
+export const rssConnector: SourceConnector = {
+  descriptor: getSourceDescriptor('rss'),
+  fetch: fetchSubscribedEntries,
+  prepare: loadSubscriptions,
+  enabled: hasSubscriptions,
+};
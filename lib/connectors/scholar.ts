@@ -0,0 +1,136 @@
+import { env } from '../env';
+import { fetchJson } from '../http';
+import { getSourceDescriptor } from '../sources';
+import { today, truncate } from '../text';
+import { normalizeArxivId } from './arxiv';
+import type { CandidateContent, SourceConnector } from './types';
+
+const PAPER_FIELDS = [
+  'title',
+  'abstract',
+  'url',
+  'venue',
+  'year',
+  'publicationDate',
+  'authors',
+  'externalIds',
+  'citationCount',
+  'influentialCitationCount',
+  'referenceCount',
+  'references.title',
+].join(',');
+const MAX_REFERENCES = 5;
+
+interface ScholarPaper {
+  paperId: string;
+  title?: string | null;
+  abstract?: string | null;
+  url?: string | null;
+  venue?: string | null;
+  year?: number | null;
+  publicationDate?: string | null;
+  authors?: Array<{ name?: string | null }>;
+  externalIds?: { ArXiv?: string; DOI?: string } | null;
+  citationCount?: number | null;
+  influentialCitationCount?: number | null;
+  referenceCount?: number | null;
+  references?: Array<{ title?: string | null }> | null;
+}
+
+function paperUrl(paper: ScholarPaper) {
+  if (paper.externalIds?.ArXiv) return `https://arxiv.org/abs/${paper.externalIds.ArXiv}`;
+  if (paper.externalIds?.DOI) return `https://doi.org/${paper.externalIds.DOI}`;
+  return paper.url || `https://www.semanticscholar.org/paper/${paper.paperId}`;
+}
+
+async function fetchScholarPapers(query: string, count = 5): Promise<CandidateContent[]> {
+  try {
+    const url = new URL(`${env.scholarApiBaseUrl.replace(/\/$/, '')}/paper/search`);
+    url.searchParams.set('query', query);
+    url.searchParams.set('limit', String(count));
+    url.searchParams.set('fields', PAPER_FIELDS);
+
+    const headers: Record<string, string> = {};
+    if (env.scholarApiKey) {
+      headers['x-api-key'] = env.scholarApiKey;
+    }
+
+    const response = await fetchJson<{ data?: ScholarPaper[] }>(url.toString(), { headers });
+    return (response.data ?? [])
+      .filter(paper => paper.paperId && paper.title)
+      .slice(0, count)
+      .map(paper => {
+        const authors = (paper.authors ?? []).map(author => author.name ?? '').filter(Boolean);
+        return {
+          id: `s2-${paper.paperId}`,
+          source: 'scholar' as const,
+          title: paper.title ?? 'Paper',
+          snippet: truncate(paper.abstract || `${paper.venue || 'Paper'} by ${authors.slice(0, 3).join(', ')}`, 360),
+          url: paperUrl(paper),
+          date: paper.publicationDate ?? (paper.year ? `${paper.year}-01-01` : today()),
+          author: authors[0],
+          engagement: {
+            citations: paper.citationCount ?? 0,
+            influentialCitations: paper.influentialCitationCount ?? 0,
+          },
+          paper: {
+            authors,
+            venue: paper.venue || undefined,
+            year: paper.year ?? undefined,
+            arxivId: paper.externalIds?.ArXiv ? normalizeArxivId(paper.externalIds.ArXiv) : undefined,
+            doi: paper.externalIds?.DOI?.toLowerCase(),
+            referenceCount: paper.referenceCount ?? undefined,
+            references: (paper.references ?? [])
+              .map(reference => reference.title ?? '')
+              .filter(Boolean)
+              .slice(0, MAX_REFERENCES),
+          },
+        };
+      });
+  } catch (error) {
+    console.error('[feed] fetchScholarPapers failed', error);
+    return [];
+  }
+}
+
+/**
+ * Folds scholarly records into the arXiv items for the same paper (matched by
+ * arXiv ID, then DOI). Records without an arXiv counterpart stay as their own items.
+ */
+function mergeScholarRecords(items: CandidateContent[]): CandidateContent[] {
+  const byKey = new Map<string, CandidateContent>();
+  for (const item of items) {
+    if (item.source !== 'scholar' || !item.paper) continue;
+    if (item.paper.arxivId) byKey.set(`arxiv:${item.paper.arxivId}`, item);
+    if (item.paper.doi) byKey.set(`doi:${item.paper.doi}`, item);
+  }
+  if (byKey.size === 0) return items;
+
+  const absorbed = new Set<string>();
+  const merged = items.map(item => {
+    if (item.source !== 'arxiv' || !item.paper) return item;
+    const record =
+      (item.paper.arxivId ? byKey.get(`arxiv:${item.paper.arxivId}`) : undefined) ??
+      (item.paper.doi ? byKey.get(`doi:${item.paper.doi.toLowerCase()}`) : undefined);
+    if (!record?.paper) return item;
+    absorbed.add(record.id);
+    return {
+      ...item,
+      engagement: { ...item.engagement, ...record.engagement },
+      paper: {
+        ...record.paper,
+        ...item.paper,
+        authors: item.paper.authors.length > 0 ? item.paper.authors : record.paper.authors,
+        doi: item.paper.doi ?? record.paper.doi,
+      },
+    };
+  });
+
+  return merged.filter(item => !absorbed.has(item.id));
+}
+
+export const scholarConnector: SourceConnector = {
+  descriptor: getSourceDescriptor('scholar'),
+  fetch: fetchScholarPapers,
+  merge: mergeScholarRecords,
+};
@@ -0,0 +1,29 @@
+import type { FeedSource, ItemMetadata, ProfileCardData } from '../../types';
+import type { SourceDescriptor } from '../sources';
+
+export interface CandidateContent extends ItemMetadata {
+  id: string;
+  source: FeedSource;
+  title: string;
+  snippet: string;
+  url: string;
+  date: string;
+  /** Set by the gatherer: the planned query that returned this item. */
+  query?: string;
+}
+
+export interface SourceConnector {
+  descriptor: SourceDescriptor;
+  fetch: (query: string, count: number) => Promise<CandidateContent[]>;
+  /** Loads stored state that `enabled` and `planQueries` read synchronously, e.g. subscriptions. */
+  prepare?: () => Promise<void>;
+  /** Connectors that report false are skipped by the planner and gatherer. */
+  enabled?: () => boolean;
+  /**
+   * Adjusts the planned queries for this source (LLM or fallback) before they are
+   * trimmed to the query budget, e.g. to add pinned communities or map keywords to tags.
+   */
+  planQueries?: (planned: string[], profile: ProfileCardData) => string[];
+  /** Post-processes the gathered pool, e.g. folding this source's records into another source's items. */
+  merge?: (items: CandidateContent[]) => CandidateContent[];
+}
@@ -0,0 +1,193 @@
+import { env } from '../env';
+import { parseFeed } from '../feed-parser';
+import type { ParsedFeed } from '../feed-parser';
+import { fetchJson, fetchText } from '../http';
+import { getSourceDescriptor } from '../sources';
+import { queryTerms, today, truncate } from '../text';
+import type { CandidateContent, SourceConnector } from './types';
+
+const YOUTUBE_API_BASE_URL = 'https://www.googleapis.com/youtube/v3';
+const VIDEO_WINDOW_DAYS = 365;
+const CHANNEL_FEED_TTL_MS = 30 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Anything shorter is a clip or a Short rather than a talk.
+const MIN_TALK_SECONDS = 4 * 60;
+
+// Conference and lecture channels searched through their public feeds when no YouTube API key is set.
+const DEFAULT_TALK_CHANNELS = [
+  'UC_QIfHvN9auy2CoOdSfMWDw', // Strange Loop
+  'UCs_tLP3AiwYKwdUHpltJPuA', // GOTO Conferences
+  'UCMlGfpWw-RUdWX_JbLCukXg', // CppCon
+  'UCZHmQk67mSJgfCCTn7xBfew', // Yannic Kilcher
+  'UCXUPKJO5MZQN11PqgIvyuvQ', // Andrej Karpathy
+  'UCbfYPyITQ-7l4upoX8nvctg', // Two Minute Papers
+  'UC9-y-6csu5WGm29I7JiwpnA', // Computerphile
+  'UCYO_jab_esuFRV4b17AJtAw', // 3Blue1Brown
+];
+
+interface YouTubeThumbnails {
+  high?: { url: string };
+  medium?: { url: string };
+  default?: { url: string };
+}
+
+interface YouTubeSearchResponse {
+  items?: Array<{ id?: { videoId?: string } }>;
+}
+
+interface YouTubeVideosResponse {
+  items?: Array<{
+    id: string;
+    snippet?: {
+      title?: string;
+      description?: string;
+      channelTitle?: string;
+      publishedAt?: string;
+      thumbnails?: YouTubeThumbnails;
+    };
+    contentDetails?: { duration?: string };
+  }>;
+}
+
+const channelFeeds = new Map<string, { feed: ParsedFeed; fetchedAt: number }>();
+
+/** Parses ISO 8601 durations such as `PT1H2M3S`. */
+function parseIsoDuration(value: string | undefined) {
+  const match = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value ?? '');
+  if (!match) return undefined;
+  const [, days, hours, minutes, seconds] = match.map(part => Number(part ?? 0));
+  return days * 86400 + hours * 3600 + minutes * 60 + seconds;
+}
+
+function watchUrl(videoId: string) {
+  return `https://www.youtube.com/watch?v=${videoId}`;
+}
+
+async function searchYouTube(query: string, count: number): Promise<CandidateContent[]> {
+  const search = new URL(`${YOUTUBE_API_BASE_URL}/search`);
+  search.searchParams.set('part', 'id');
+  search.searchParams.set('type', 'video');
+  search.searchParams.set('q', query);
+  search.searchParams.set('maxResults', String(Math.min(count * 2, 25)));
+  search.searchParams.set('relevanceLanguage', 'en');
+  search.searchParams.set('publishedAfter', new Date(Date.now() - VIDEO_WINDOW_DAYS * DAY_MS).toISOString());
+  search.searchParams.set('key', env.youtubeApiKey);
+
+  const results = await fetchJson<YouTubeSearchResponse>(search.toString());
+  const ids = (results.items ?? []).map(item => item.id?.videoId).filter((id): id is string => Boolean(id));
+  if (ids.length === 0) return [];
+
+  // Search results carry no duration, so the details come from a second call.
+  const details = new URL(`${YOUTUBE_API_BASE_URL}/videos`);
+  details.searchParams.set('part', 'snippet,contentDetails');
+  details.searchParams.set('id', ids.join(','));
+  details.searchParams.set('key', env.youtubeApiKey);
+  const videos = await fetchJson<YouTubeVideosResponse>(details.toString());
+
+  const items: CandidateContent[] = [];
+  for (const video of videos.items ?? []) {
+    const durationSeconds = parseIsoDuration(video.contentDetails?.duration);
+    if (durationSeconds !== undefined && durationSeconds < MIN_TALK_SECONDS) continue;
+    const snippet = video.snippet ?? {};
+    const channel = snippet.channelTitle ?? 'YouTube';
+    const thumbnails = snippet.thumbnails ?? {};
+    items.push({
+      id: `yt-${video.id}`,
+      source: 'video',
+      title: snippet.title ?? 'Video',
+      snippet: truncate(snippet.description || `Talk from ${channel}.`, 320),
+      url: watchUrl(video.id),
+      date: snippet.publishedAt ? snippet.publishedAt.slice(0, 10) : today(),
+      author: channel,
+      video: {
+        channel,
+        durationSeconds,
+        thumbnailUrl: (thumbnails.high ?? thumbnails.medium ?? thumbnails.default)?.url,
+      },
+    });
+    if (items.length >= count) break;
+  }
+  return items;
+}
+
+async function loadChannelFeed(channelId: string) {
+  const cached = channelFeeds.get(channelId);
+  if (cached && Date.now() - cached.fetchedAt < CHANNEL_FEED_TTL_MS) {
+    return cached.feed;
+  }
+  const body = await fetchText(`https://www.youtube.com/feeds/videos.xml?channel_id=${encodeURIComponent(channelId)}`, {
+    headers: { Accept: 'application/atom+xml, application/xml;q=0.9' },
+  });
+  const feed = parseFeed(body);
+  channelFeeds.set(channelId, { feed, fetchedAt: Date.now() });
+  return feed;
+}
+
+/** Keyless fallback: match the query against recent uploads of known talk channels. */
+async function searchTalkChannels(query: string, count: number): Promise<CandidateContent[]> {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [];
+
+  const channelIds = env.videoChannelIds.length > 0 ? env.videoChannelIds : DEFAULT_TALK_CHANNELS;
+  const feeds = await Promise.all(
+    channelIds.map(channelId =>
+      loadChannelFeed(channelId).catch(error => {
+        console.error('[feed] loadChannelFeed failed', channelId, error);
+        return null;
+      }),
+    ),
+  );
+
+  const cutoff = Date.now() - VIDEO_WINDOW_DAYS * DAY_MS;
+  const scored: Array<{ item: CandidateContent; score: number; time: number }> = [];
+  for (const feed of feeds) {
+    if (!feed) continue;
+    for (const entry of feed.entries) {
+      const videoId = /[?&]v=([\w-]{11})/.exec(entry.url)?.[1] ?? entry.id.replace(/^yt:video:/, '');
+      if (!videoId || entry.url.includes('/shorts/')) continue;
+      const time = entry.published ? new Date(entry.published).getTime() : Date.now();
+      if (time < cutoff) continue;
+      const text = `${entry.title} ${entry.summary}`.toLowerCase();
+      const score = terms.filter(term => text.includes(term)).length;
+      if (score === 0) continue;
+      const channel = entry.author ?? feed.title;
+      scored.push({
+        score,
+        time,
+        item: {
+          id: `yt-${videoId}`,
+          source: 'video',
+          title: entry.title,
+          snippet: truncate(entry.summary || `Talk from ${channel}.`, 320),
+          url: watchUrl(videoId),
+          date: entry.published ? entry.published.slice(0, 10) : today(),
+          author: channel,
+          video: {
+            channel,
+            durationSeconds: entry.durationSeconds,
+            thumbnailUrl: entry.thumbnail,
+          },
+        },
+      });
+    }
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || b.time - a.time)
+    .slice(0, count)
+    .map(entry => entry.item);
+}
+
+async function fetchVideos(query: string, count = 5): Promise<CandidateContent[]> {
+  try {
+    return env.youtubeApiKey ? await searchYouTube(query, count) : await searchTalkChannels(query, count);
+  } catch (error) {
+    console.error('[feed] fetchVideos failed', error);
+    return [];
+  }
+}
+
+export const videoConnector: SourceConnector = {
+  descriptor: getSourceDescriptor('video'),
+  fetch: fetchVideos,
+};
@@ -0,0 +1,51 @@
+import { env } from '../env';
+import { hashId } from '../ids';
+import { getSourceDescriptor } from '../sources';
+import { today, truncate } from '../text';
+import { googleSearch, hasGoogleSearch } from './google-search';
+import type { CandidateContent, SourceConnector } from './types';
+
+async function fetchXPosts(query: string, count = 5): Promise<CandidateContent[]> {
+  if (!hasGoogleSearch()) {
+    return [];
+  }
+
+  try {
+    const results = await googleSearch(`site:x.com ${query}`, Math.min(count * 2, 10));
+    const items: CandidateContent[] = [];
+    const seen = new Set<string>();
+
+    for (const result of results) {
+      if (!result.link) continue;
+      try {
+        const normalized = new URL(result.link).toString();
+        if (seen.has(normalized)) continue;
+        seen.add(normalized);
+
+        items.push({
+          id: hashId('x', normalized),
+          source: 'x',
+          title: result.title ?? normalized,
+          snippet: truncate(result.snippet ?? result.title ?? '', 240),
+          url: normalized,
+          date: today(),
+        });
+
+        if (items.length >= count) break;
+      } catch {
+        continue;
+      }
+    }
+
+    return items;
+  } catch (error) {
+    console.error('[feed] fetchXPosts failed', error);
+    return [];
+  }
+}
+
+export const xConnector: SourceConnector = {
+  descriptor: getSourceDescriptor('x'),
+  fetch: fetchXPosts,
+  enabled: () => env.socialProviders.includes('x'),
+};
@@ -0,0 +1,49 @@
+import { queryTerms, stemTerm } from '../text';
+import type { Embedder } from './types';
+
+const DIMENSIONS = 512;
+
+/** 32-bit FNV-1a. */
+function fnv1a(value: string) {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Signed feature hashing of terms and adjacent-term pairs, log-scaled and
+ * L2-normalised. Only shared vocabulary counts, but it needs no model.
+ */
+function hashedVector(text: string) {
+  const terms = queryTerms(text).map(stemTerm);
+  const features = [...terms, ...terms.slice(1).map((term, index) => `${terms[index]} ${term}`)];
+  const counts = new Map<number, number>();
+  for (const feature of features) {
+    const hash = fnv1a(feature);
+    const bucket = hash % DIMENSIONS;
+    // The top bit picks the sign so colliding features tend to cancel rather than pile up.
+    counts.set(bucket, (counts.get(bucket) ?? 0) + (hash & 0x80000000 ? -1 : 1));
+  }
+  const vector = new Array<number>(DIMENSIONS).fill(0);
+  for (const [bucket, count] of counts) {
+    vector[bucket] = Math.sign(count) * Math.log1p(Math.abs(count));
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / norm);
+}
+
+/** Offline bag-of-words fallback; always available, so it ends every chain. */
+export function createHashedEmbedder(): Embedder {
+  return {
+    id: 'hashed',
+    available: () => true,
+    model: () => `bow-${DIMENSIONS}`,
+    remote: false,
+    async embed(texts) {
+      return { vectors: texts.map(hashedVector), tokens: 0 };
+    },
+  };
+}
@@ -0,0 +1,156 @@
+import type { ProfileCardData } from '../../types';
+import { BudgetExceededError, chargeLlmCall, recordLlmUsage } from '../budget';
+import type { CandidateContent } from '../connectors';
+import { env } from '../env';
+import { globalSingleton } from '../singleton';
+import { createHashedEmbedder } from './hashed';
+import { createLocalEmbedder } from './local';
+import { createOpenAIEmbedder } from './openai';
+import type { Embedder, EmbedderId } from './types';
+
+export type { Embedder, EmbedderId, EmbeddingBatch } from './types';
+
+// Keeps requests well under provider input limits.
+const BATCH_SIZE = 96;
+const MAX_CACHED_VECTORS = 5000;
+// How much each part of the profile counts towards a candidate's similarity.
+const PROFILE_PART_WEIGHTS = { summary: 0.4, keywords: 0.4, evidence: 0.2 };
+
+const embedders = new Map<EmbedderId, Embedder>();
+
+export function registerEmbedder(embedder: Embedder) {
+  embedders.set(embedder.id, embedder);
+}
+
+[createOpenAIEmbedder(), createLocalEmbedder(), createHashedEmbedder()].forEach(registerEmbedder);
+
+const cache = globalSingleton('__neuralFeedEmbeddings', () => new Map<string, number[]>());
+
+/** The `EMBEDDING_PROVIDERS` chain minus unavailable embedders, always ending with `hashed`. */
+export function embedderChain(): Embedder[] {
+  const ids = env.embeddingProviders
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean) as EmbedderId[];
+  return Array.from(new Set([...ids, 'hashed' as const]))
+    .map(id => embedders.get(id))
+    .filter((embedder): embedder is Embedder => Boolean(embedder?.available()));
+}
+
+function cacheKey(embedder: Embedder, key: string) {
+  return `${embedder.id}:${embedder.model()}:${key}`;
+}
+
+function remember(key: string, vector: number[]) {
+  cache.delete(key);
+  cache.set(key, vector);
+  // Maps iterate in insertion order, so the first key is the least recently stored.
+  if (cache.size > MAX_CACHED_VECTORS) {
+    cache.delete(cache.keys().next().value as string);
+  }
+}
+
+/** Remote batches are counted against the run's budget like LLM calls. */
+async function embedBatch(embedder: Embedder, texts: string[]) {
+  if (!embedder.remote) return embedder.embed(texts);
+  const timeoutMs = chargeLlmCall();
+  const batch = await embedder.embed(texts, timeoutMs);
+  recordLlmUsage(batch.tokens, 0);
+  return batch;
+}
+
+async function embedWith(embedder: Embedder, inputs: Array<{ key?: string; text: string }>) {
+  const vectors: Array<number[] | undefined> = inputs.map(input =>
+    input.key ? cache.get(cacheKey(embedder, input.key)) : undefined,
+  );
+  const missing = inputs.map((_, index) => index).filter(index => !vectors[index]);
+  for (let start = 0; start < missing.length; start += BATCH_SIZE) {
+    const indexes = missing.slice(start, start + BATCH_SIZE);
+    const batch = await embedBatch(embedder, indexes.map(index => inputs[index].text));
+    indexes.forEach((index, position) => {
+      vectors[index] = batch.vectors[position];
+      const key = inputs[index].key;
+      if (key) remember(cacheKey(embedder, key), batch.vectors[position]);
+    });
+  }
+  return vectors as number[][];
+}
+
+/**
+ * Embeds every input with the first embedder in the chain that succeeds, so
+ * all vectors of one call are comparable. Inputs with a `key` (the URL for
+ * candidates) are cached per embedder and model.
+ */
+export async function embedTexts(inputs: Array<{ key?: string; text: string }>) {
+  let lastError: unknown;
+  for (const embedder of embedderChain()) {
+    try {
+      return { embedder: `${embedder.id}:${embedder.model()}`, vectors: await embedWith(embedder, inputs) };
+    } catch (error) {
+      lastError = error;
+      if (!(error instanceof BudgetExceededError)) {
+        console.error(`[embeddings] ${embedder.id} failed`, error);
+      }
+    }
+  }
+  throw lastError;
+}
+
+export function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index += 1) {
+    dot += a[index] * b[index];
+    normA += a[index] * a[index];
+    normB += b[index] * b[index];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function profileParts(profile: ProfileCardData) {
+  const keywords = profile.keywordWeights && profile.keywordWeights.length > 0
+    ? [...profile.keywordWeights].sort((a, b) => b.weight - a.weight).map(entry => entry.keyword)
+    : profile.keywords;
+  return [
+    { weight: PROFILE_PART_WEIGHTS.summary, text: profile.summary },
+    { weight: PROFILE_PART_WEIGHTS.keywords, text: keywords.join(', ') },
+    { weight: PROFILE_PART_WEIGHTS.evidence, text: profile.evidence.map(entry => entry.claim).join('. ') },
+  ].filter(part => part.text.trim());
+}
+
+function candidateText(item: CandidateContent) {
+  return [item.title, item.snippet, item.hub?.tags.join(' '), item.repo?.topics.join(' ')].filter(Boolean).join('\n');
+}
+
+export interface RelevanceScores {
+  /** `<embedder>:<model>` that produced the vectors. */
+  embedder: string;
+  /** Candidate id to its weighted cosine similarity with the profile. */
+  scores: Map<string, number>;
+}
+
+/**
+ * Scores candidates by cosine similarity to the profile's summary, keywords
+ * and evidence, each embedded separately and weighted by `PROFILE_PART_WEIGHTS`.
+ */
+export async function scoreRelevance(profile: ProfileCardData, items: CandidateContent[]): Promise<RelevanceScores> {
+  const parts = profileParts(profile);
+  const { embedder, vectors } = await embedTexts([
+    ...parts.map(part => ({ text: part.text })),
+    ...items.map(item => ({ key: item.url || item.id, text: candidateText(item) })),
+  ]);
+  const profileVectors = vectors.slice(0, parts.length);
+  const totalWeight = parts.reduce((sum, part) => sum + part.weight, 0) || 1;
+  const scores = new Map(
+    items.map((item, index) => {
+      const vector = vectors[parts.length + index];
+      const similarity = parts.reduce(
+        (sum, part, partIndex) => sum + part.weight * cosineSimilarity(profileVectors[partIndex], vector),
+        0,
+      );
+      return [item.id, similarity / totalWeight];
+    }),
+  );
+  return { embedder, scores };
+}
@@ -0,0 +1,23 @@
+import OpenAI from 'openai';
+import { env } from '../env';
+import { embedWith } from './openai';
+import type { Embedder } from './types';
+
+/**
+ * An embedding model on the OpenAI-compatible local server, e.g.
+ * `nomic-embed-text` on Ollama, which runs fine on CPU.
+ */
+export function createLocalEmbedder(): Embedder {
+  let client: OpenAI | null = null;
+
+  return {
+    id: 'local',
+    available: () => Boolean(env.localLlmBaseUrl),
+    model: () => env.localEmbeddingModel,
+    remote: true,
+    async embed(texts, timeoutMs) {
+      client ??= new OpenAI({ apiKey: env.localLlmApiKey || 'local', baseURL: env.localLlmBaseUrl, maxRetries: 0 });
+      return embedWith(client, env.localEmbeddingModel, texts, timeoutMs);
+    },
+  };
+}
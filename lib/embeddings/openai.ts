@@ -0,0 +1,32 @@
+import OpenAI from 'openai';
+import { env } from '../env';
+import { openaiClient } from '../llm/openai';
+import type { Embedder } from './types';
+
+export function createOpenAIEmbedder(): Embedder {
+  return {
+    id: 'openai',
+    available: () => Boolean(openaiClient),
+    model: () => env.openaiEmbeddingModel,
+    remote: true,
+    async embed(texts, timeoutMs) {
+      if (!openaiClient) {
+        throw new Error('OPENAI_API_KEY is not set.');
+      }
+      return embedWith(openaiClient, env.openaiEmbeddingModel, texts, timeoutMs);
+    },
+  };
+}
+
+/** Shared with the local embedder: both speak the OpenAI embeddings endpoint. */
+export async function embedWith(client: OpenAI, model: string, texts: string[], timeoutMs?: number) {
+  const response = await client.embeddings.create(
+    { model, input: texts },
+    timeoutMs === undefined ? undefined : { timeout: timeoutMs },
+  );
+  const vectors = [...response.data].sort((a, b) => a.index - b.index).map(entry => entry.embedding);
+  if (vectors.length !== texts.length) {
+    throw new Error(`Expected ${texts.length} embeddings, got ${vectors.length}.`);
+  }
+  return { vectors, tokens: response.usage?.prompt_tokens ?? 0 };
+}
@@ -0,0 +1,17 @@
+export type EmbedderId = 'openai' | 'local' | 'hashed';
+
+export interface EmbeddingBatch {
+  vectors: number[][];
+  /** Input tokens billed for the batch; 0 for embedders that run in-process. */
+  tokens: number;
+}
+
+export interface Embedder {
+  id: EmbedderId;
+  /** Embedders that report false (e.g. no API key) are skipped in the chain. */
+  available: () => boolean;
+  model: () => string;
+  /** Whether calls leave the process and count against the run's budget. */
+  remote: boolean;
+  embed: (texts: string[], timeoutMs?: number) => Promise<EmbeddingBatch>;
+}
@@ -0,0 +1,56 @@
+export const env = {
+  googleSearchKey: process.env.GOOGLE_SEARCH_API_KEY ?? '',
+  googleSearchCx: process.env.GOOGLE_SEARCH_CX ?? '',
+  openaiApiKey: process.env.OPENAI_API_KEY ?? '',
+  openaiModelProfile: process.env.OPENAI_PROFILE_MODEL ?? 'gpt-4o-mini',
+  openaiModelRank: process.env.OPENAI_RANK_MODEL ?? 'gpt-4o-mini',
+  openaiModelDeepen: process.env.OPENAI_DEEPEN_MODEL ?? 'gpt-4o-mini',
+  llmProviders: process.env.LLM_PROVIDERS ?? 'openai',
+  llmStageProviders: {
+    discover: process.env.LLM_DISCOVER_PROVIDERS ?? '',
+    profile: process.env.LLM_PROFILE_PROVIDERS ?? '',
+    plan: process.env.LLM_PLAN_PROVIDERS ?? '',
+    rank: process.env.LLM_RANK_PROVIDERS ?? '',
+    deepen: process.env.LLM_DEEPEN_PROVIDERS ?? '',
+  },
+  localLlmBaseUrl: process.env.LOCAL_LLM_BASE_URL ?? 'http://localhost:11434/v1',
+  localLlmModel: process.env.LOCAL_LLM_MODEL ?? 'llama3.1',
+  localLlmApiKey: process.env.LOCAL_LLM_API_KEY ?? '',
+  mockLlmResponses: process.env.MOCK_LLM_RESPONSES ?? '',
+  embeddingProviders: process.env.EMBEDDING_PROVIDERS ?? 'openai',
+  openaiEmbeddingModel: process.env.OPENAI_EMBEDDING_MODEL ?? 'text-embedding-3-small',
+  localEmbeddingModel: process.env.LOCAL_EMBEDDING_MODEL ?? 'nomic-embed-text',
+  rankShortlistSize: Number(process.env.RANK_SHORTLIST_SIZE ?? 15),
+  profileLens: process.env.PROFILE_LENS ?? '',
+  feedPipeline: process.env.FEED_PIPELINE === 'orchestrator' ? 'orchestrator' : 'linear',
+  orchestratorMaxToolCalls: Number(process.env.ORCHESTRATOR_MAX_TOOL_CALLS ?? 12),
+  orchestratorMaxTokens: Number(process.env.ORCHESTRATOR_MAX_TOKENS ?? 60000),
+  runMaxLlmCalls: Number(process.env.RUN_MAX_LLM_CALLS ?? 24),
+  runMaxInputTokens: Number(process.env.RUN_MAX_INPUT_TOKENS ?? 250000),
+  runMaxOutputTokens: Number(process.env.RUN_MAX_OUTPUT_TOKENS ?? 30000),
+  runMaxHttpRequests: Number(process.env.RUN_MAX_HTTP_REQUESTS ?? 200),
+  runMaxWallClockMs: Number(process.env.RUN_MAX_SECONDS ?? 180) * 1000,
+  githubToken: process.env.GITHUB_TOKEN ?? '',
+  huggingfaceToken: process.env.HF_TOKEN ?? '',
+  scholarApiBaseUrl: process.env.SCHOLAR_API_BASE_URL ?? 'https://api.semanticscholar.org/graph/v1',
+  scholarApiKey: process.env.SEMANTIC_SCHOLAR_API_KEY ?? '',
+  redditClientId: process.env.REDDIT_CLIENT_ID ?? '',
+  redditClientSecret: process.env.REDDIT_CLIENT_SECRET ?? '',
+  youtubeApiKey: process.env.YOUTUBE_API_KEY ?? '',
+  videoChannelIds: (process.env.VIDEO_CHANNEL_IDS ?? '')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean),
+  socialProviders: (process.env.SOCIAL_PROVIDERS ?? 'bluesky,mastodon')
+    .split(',')
+    .map(provider => provider.trim().toLowerCase())
+    .filter(Boolean),
+  blueskyApiBaseUrl: process.env.BLUESKY_API_BASE_URL ?? 'https://public.api.bsky.app',
+  blueskyHandle: process.env.BLUESKY_HANDLE ?? '',
+  blueskyAppPassword: process.env.BLUESKY_APP_PASSWORD ?? '',
+  mastodonInstanceUrl: process.env.MASTODON_INSTANCE_URL ?? 'https://mastodon.social',
+  mastodonAccessToken: process.env.MASTODON_ACCESS_TOKEN ?? '',
+  storageDriver: process.env.STORAGE_DRIVER === 'memory' ? 'memory' : 'sqlite',
+  databasePath: process.env.DATABASE_PATH ?? '.data/neural-feed.db',
+  hnSearchBaseUrl: process.env.HN_SEARCH_BASE_URL ?? 'https://hn.algolia.com/api/v1',
+};
@@ -0,0 +1,264 @@
+import { decodeEntities, sanitizeWhitespace, stripHtml } from './text';
+
+export interface ParsedFeedEntry {
+  id: string;
+  title: string;
+  url: string;
+  summary: string;
+  /** Full body when the feed ships one (`content:encoded`, Atom `content`, JSON Feed `content_html`). */
+  content: string;
+  published?: string;
+  author?: string;
+  /** Preview image from `media:thumbnail`, `itunes:image` or the JSON Feed `image`. */
+  thumbnail?: string;
+  /** Media length in seconds from `itunes:duration` or a `media:content` duration. */
+  durationSeconds?: number;
+  enclosure?: {
+    url: string;
+    type?: string;
+    length?: number;
+  };
+}
+
+export interface ParsedFeed {
+  format: 'rss' | 'atom' | 'json';
+  title: string;
+  url: string;
+  entries: ParsedFeedEntry[];
+}
+
+interface JsonFeedItem {
+  id?: string | number;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  summary?: string;
+  content_html?: string;
+  content_text?: string;
+  date_published?: string;
+  date_modified?: string;
+  image?: string;
+  author?: { name?: string };
+  authors?: Array<{ name?: string }>;
+  attachments?: Array<{ url?: string; mime_type?: string; size_in_bytes?: number; duration_in_seconds?: number }>;
+}
+
+interface JsonFeed {
+  version?: string;
+  title?: string;
+  home_page_url?: string;
+  feed_url?: string;
+  items?: JsonFeedItem[];
+}
+
+function escapeTag(tag: string) {
+  return tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function unwrapCdata(value: string) {
+  return value.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+}
+
+/** Raw inner markup of the first `<tag>` element, with CDATA unwrapped but HTML kept. */
+function rawTag(xml: string, tag: string) {
+  const regex = new RegExp(`<${escapeTag(tag)}(?:\\s[^>]*)?>([\\s\\S]*?)</${escapeTag(tag)}>`, 'i');
+  const match = regex.exec(xml);
+  if (!match) return '';
+  const inner = match[1].trim();
+  return inner.includes('<![CDATA[') ? unwrapCdata(inner) : decodeEntities(inner);
+}
+
+function textTag(xml: string, ...tags: string[]) {
+  for (const tag of tags) {
+    const value = rawTag(xml, tag);
+    if (value) {
+      return stripHtml(value);
+    }
+  }
+  return '';
+}
+
+function attributes(tag: string) {
+  const attrs: Record<string, string> = {};
+  const regex = /([\w:-]+)\s*=\s*["']([^"']*)["']/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(tag))) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2]);
+  }
+  return attrs;
+}
+
+function selfClosingTags(xml: string, tag: string) {
+  const regex = new RegExp(`<${escapeTag(tag)}\\b[^>]*>`, 'gi');
+  return xml.match(regex) ?? [];
+}
+
+function blocks(xml: string, tag: string) {
+  const regex = new RegExp(`<${escapeTag(tag)}(?:\\s[^>]*)?>([\\s\\S]*?)</${escapeTag(tag)}>`, 'gi');
+  const result: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(xml))) {
+    result.push(match[1]);
+  }
+  return result;
+}
+
+/** Markup before the first `<tag>`, i.e. the feed-level metadata. */
+function headOf(xml: string, tag: string) {
+  const index = xml.search(new RegExp(`<${tag}[\\s>]`, 'i'));
+  return index === -1 ? xml : xml.slice(0, index);
+}
+
+function atomLink(block: string) {
+  const links = selfClosingTags(block, 'link').map(attributes);
+  const alternate = links.find(link => link.href && (!link.rel || link.rel === 'alternate'));
+  return alternate?.href ?? links.find(link => link.href)?.href ?? '';
+}
+
+function normalizeDate(value: string | undefined) {
+  if (!value) return undefined;
+  const parsed = new Date(value.trim());
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+function parseEnclosure(block: string): ParsedFeedEntry['enclosure'] {
+  const [tag] = selfClosingTags(block, 'enclosure');
+  if (!tag) return undefined;
+  const attrs = attributes(tag);
+  if (!attrs.url) return undefined;
+  const length = Number(attrs.length);
+  return {
+    url: attrs.url,
+    type: attrs.type,
+    length: Number.isFinite(length) && length > 0 ? length : undefined,
+  };
+}
+
+function parseThumbnail(block: string) {
+  for (const tag of ['media:thumbnail', 'itunes:image']) {
+    const [match] = selfClosingTags(block, tag);
+    const attrs = match ? attributes(match) : {};
+    if (attrs.url || attrs.href) return attrs.url || attrs.href;
+  }
+  return undefined;
+}
+
+/** Accepts plain seconds as well as `HH:MM:SS` / `MM:SS`. */
+export function parseDurationSeconds(value: string | undefined) {
+  if (!value) return undefined;
+  const parts = value.trim().split(':').map(Number);
+  if (parts.length === 0 || parts.length > 3 || parts.some(part => !Number.isFinite(part))) return undefined;
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds > 0 ? Math.round(seconds) : undefined;
+}
+
+function parseDuration(block: string) {
+  const itunes = parseDurationSeconds(textTag(block, 'itunes:duration'));
+  if (itunes) return itunes;
+  const [media] = selfClosingTags(block, 'media:content');
+  return media ? parseDurationSeconds(attributes(media).duration) : undefined;
+}
+
+function parseRss(xml: string): ParsedFeed {
+  const channel = headOf(xml, 'item');
+  const entries = blocks(xml, 'item').map((block, index) => {
+    const url = textTag(block, 'link') || (rawTag(block, 'guid') ? stripHtml(rawTag(block, 'guid')) : '');
+    const description = rawTag(block, 'description');
+    const content = rawTag(block, 'content:encoded');
+    return {
+      id: stripHtml(rawTag(block, 'guid')) || url || `item-${index}`,
+      title: textTag(block, 'title') || 'Untitled',
+      url,
+      summary: stripHtml(description || content),
+      content: stripHtml(content || description),
+      published: normalizeDate(textTag(block, 'pubDate', 'dc:date')),
+      author: textTag(block, 'dc:creator', 'author', 'itunes:author') || undefined,
+      thumbnail: parseThumbnail(block),
+      durationSeconds: parseDuration(block),
+      enclosure: parseEnclosure(block),
+    };
+  });
+  return {
+    format: 'rss',
+    title: textTag(channel, 'title'),
+    url: textTag(channel, 'link'),
+    entries,
+  };
+}
+
+function parseAtom(xml: string): ParsedFeed {
+  const head = headOf(xml, 'entry');
+  const entries = blocks(xml, 'entry').map((block, index) => {
+    const url = atomLink(block);
+    const summary = rawTag(block, 'summary') || rawTag(block, 'media:description');
+    const content = rawTag(block, 'content');
+    const author = rawTag(block, 'author');
+    return {
+      id: textTag(block, 'id') || url || `entry-${index}`,
+      title: textTag(block, 'title') || 'Untitled',
+      url,
+      summary: stripHtml(summary || content),
+      content: stripHtml(content || summary),
+      published: normalizeDate(textTag(block, 'published', 'updated')),
+      author: author ? textTag(author, 'name') || stripHtml(author) : undefined,
+      thumbnail: parseThumbnail(block),
+      durationSeconds: parseDuration(block),
+    };
+  });
+  return {
+    format: 'atom',
+    title: textTag(head, 'title'),
+    url: atomLink(head),
+    entries,
+  };
+}
+
+function parseJsonFeed(feed: JsonFeed): ParsedFeed {
+  const entries = (feed.items ?? []).map((item, index) => {
+    const url = item.url ?? item.external_url ?? '';
+    const content = item.content_html ? stripHtml(item.content_html) : sanitizeWhitespace(item.content_text ?? '');
+    const attachment = item.attachments?.find(entry => entry.url);
+    return {
+      id: String(item.id ?? (url || `item-${index}`)),
+      title: sanitizeWhitespace(item.title ?? '') || 'Untitled',
+      url,
+      summary: sanitizeWhitespace(item.summary ?? '') || content,
+      content,
+      published: normalizeDate(item.date_published ?? item.date_modified),
+      author: item.authors?.[0]?.name ?? item.author?.name,
+      thumbnail: item.image,
+      durationSeconds: attachment?.duration_in_seconds,
+      enclosure: attachment?.url
+        ? { url: attachment.url, type: attachment.mime_type, length: attachment.size_in_bytes }
+        : undefined,
+    };
+  });
+  return {
+    format: 'json',
+    title: sanitizeWhitespace(feed.title ?? ''),
+    url: feed.home_page_url ?? feed.feed_url ?? '',
+    entries,
+  };
+}
+
+/**
+ * Parses RSS 2.0, Atom and JSON Feed documents into a common shape.
+ * Throws when the body is none of those.
+ */
+export function parseFeed(body: string): ParsedFeed {
+  const trimmed = body.trim();
+  if (trimmed.startsWith('{')) {
+    const json = JSON.parse(trimmed) as JsonFeed;
+    if (!json.version?.includes('jsonfeed.org') && !Array.isArray(json.items)) {
+      throw new Error('JSON document is not a JSON Feed.');
+    }
+    return parseJsonFeed(json);
+  }
+  if (/<feed[\s>]/i.test(trimmed)) {
+    return parseAtom(trimmed);
+  }
+  if (/<(rss|rdf:RDF)[\s>]/i.test(trimmed) || /<channel[\s>]/i.test(trimmed)) {
+    return parseRss(trimmed);
+  }
+  throw new Error('Unrecognized feed format.');
+}
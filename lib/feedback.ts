@@ -0,0 +1,100 @@
+import type { FeedbackAction, ItemFeedback, ProfileCardData } from '../types';
+import { queryTerms } from './text';
+
+// Multipliers for the weight of every profile keyword an item mentions.
+const KEYWORD_FACTORS: Record<FeedbackAction, number> = {
+  like: 1.25,
+  dismiss: 0.9,
+  less: 0.7,
+};
+// Added to (or taken from) the item source's share before renormalising.
+const SOURCE_STEPS: Record<FeedbackAction, number> = {
+  like: 0.05,
+  dismiss: -0.02,
+  less: -0.05,
+};
+const MAX_EXAMPLES = 5;
+const STOPWORDS = new Set(['the', 'and', 'for', 'with', 'from', 'that', 'this', 'into', 'your', 'are', 'how', 'what', 'new']);
+
+export interface FeedbackExamples {
+  liked: ItemFeedback[];
+  disliked: ItemFeedback[];
+}
+
+function normalize(values: Record<string, number>) {
+  const total = Object.values(values).reduce((sum, value) => sum + value, 0) || 1;
+  return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, Number((value / total).toFixed(3))]));
+}
+
+function feedbackText(entry: ItemFeedback) {
+  return `${entry.title} ${entry.summary}`.toLowerCase();
+}
+
+/**
+ * Replays stored feedback onto a profile card: keywords an item mentions are
+ * scaled up (like) or down (dismiss, less), and the item's source share moves
+ * the same way. Both are renormalised to sum to 1, like the weights the
+ * profile stage produces. Apply it to the untouched card so feedback never
+ * compounds across runs.
+ */
+export function applyFeedback(profile: ProfileCardData, feedback: ItemFeedback[]): ProfileCardData {
+  if (feedback.length === 0) return profile;
+
+  const baseWeights = profile.keywordWeights && profile.keywordWeights.length > 0
+    ? profile.keywordWeights
+    : profile.keywords.map(keyword => ({ keyword, weight: 1 / Math.max(profile.keywords.length, 1) }));
+  const weights = Object.fromEntries(baseWeights.map(entry => [entry.keyword, entry.weight]));
+  const sourceFocus: Record<string, number> = { ...(profile.sourceFocus ?? {}) };
+
+  for (const entry of feedback) {
+    const text = feedbackText(entry);
+    for (const keyword of Object.keys(weights)) {
+      if (text.includes(keyword.toLowerCase())) {
+        weights[keyword] *= KEYWORD_FACTORS[entry.action];
+      }
+    }
+    sourceFocus[entry.source] = Math.max(0, (sourceFocus[entry.source] ?? 0) + SOURCE_STEPS[entry.action]);
+  }
+
+  const normalizedWeights = normalize(weights);
+  return {
+    ...profile,
+    keywordWeights: baseWeights.map(entry => ({ ...entry, weight: normalizedWeights[entry.keyword] })),
+    sourceFocus: normalize(sourceFocus),
+  };
+}
+
+/** URLs the reader asked not to see again. */
+export function hiddenUrls(feedback: ItemFeedback[]) {
+  return new Set(feedback.filter(entry => entry.action !== 'like').map(entry => entry.url));
+}
+
+/** The most recent liked and disliked items, for the ranking prompt and the fallback scorer. */
+export function feedbackExamples(feedback: ItemFeedback[]): FeedbackExamples {
+  const sorted = [...feedback].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return {
+    liked: sorted.filter(entry => entry.action === 'like').slice(0, MAX_EXAMPLES),
+    disliked: sorted.filter(entry => entry.action !== 'like').slice(0, MAX_EXAMPLES),
+  };
+}
+
+function termSet(entries: ItemFeedback[]) {
+  return new Set(entries.flatMap(entry => queryTerms(feedbackText(entry))).filter(term => !STOPWORDS.has(term)));
+}
+
+/**
+ * Scores an item by the share of its terms found in liked examples minus the
+ * share found in disliked ones, in [-1, 1]. Always zero without examples.
+ */
+export function createFeedbackScorer(examples: FeedbackExamples) {
+  const liked = termSet(examples.liked);
+  const disliked = termSet(examples.disliked);
+  return (item: { title: string; snippet: string }) => {
+    if (liked.size === 0 && disliked.size === 0) return 0;
+    const terms = Array.from(new Set(queryTerms(`${item.title} ${item.snippet}`))).filter(term => !STOPWORDS.has(term));
+    if (terms.length === 0) return 0;
+    const likedShare = terms.filter(term => liked.has(term)).length / terms.length;
+    const dislikedShare = terms.filter(term => disliked.has(term)).length / terms.length;
+    return likedShare - dislikedShare;
+  };
+}
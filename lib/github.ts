@@ -0,0 +1,14 @@
+import { env } from './env';
+
+export const GITHUB_API_BASE_URL = 'https://api.github.com';
+
+export function githubHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {
+    Accept: 'application/vnd.github+json',
+    'User-Agent': 'NeuralFeed/0.1',
+  };
+  if (env.githubToken) {
+    headers.Authorization = `Bearer ${env.githubToken}`;
+  }
+  return headers;
+}
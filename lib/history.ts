@@ -0,0 +1,70 @@
+import type { FeedHistoryEntry, FeedItem, FeedRun, ProfileCardData, PromptChange, PromptVersions, WeightChange } from '../types';
+
+// Rounding keeps float noise from surfacing as movement between otherwise identical runs.
+const WEIGHT_EPSILON = 0.001;
+
+function itemKey(item: FeedItem) {
+  return item.url || item.id;
+}
+
+function keywordWeightMap(profile?: ProfileCardData) {
+  return Object.fromEntries((profile?.keywordWeights ?? []).map(entry => [entry.keyword.toLowerCase(), entry.weight]));
+}
+
+/** Keys whose weight appeared, disappeared or moved, largest movement first. */
+export function diffWeights(previous: Record<string, number>, current: Record<string, number>): WeightChange[] {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(current)]);
+  const changes: WeightChange[] = [];
+  for (const key of keys) {
+    const before = previous[key];
+    const after = current[key];
+    const delta = (after ?? 0) - (before ?? 0);
+    if (before !== undefined && after !== undefined && Math.abs(delta) < WEIGHT_EPSILON) continue;
+    changes.push({ key, previous: before, current: after, delta: Math.round(delta * 1000) / 1000 });
+  }
+  return changes.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+}
+
+/** Refreshes skip the profile prompts, so the card's versions stand in for them. */
+function runPromptVersions(run: FeedRun): PromptVersions {
+  return { ...run.profile?.promptVersions, ...run.promptVersions };
+}
+
+function diffPromptVersions(previous: PromptVersions, current: PromptVersions): PromptChange[] {
+  return Object.keys(current)
+    .filter(id => previous[id] !== undefined && previous[id] !== current[id])
+    .map(id => ({ id, previous: previous[id], current: current[id] }));
+}
+
+/**
+ * Compares each completed run with the completed run before it. Takes runs in
+ * any order and returns entries newest first; the oldest run has no baseline,
+ * so all of its items count as new.
+ */
+export function buildFeedHistory(runs: FeedRun[]): FeedHistoryEntry[] {
+  const completed = runs
+    .filter(run => run.status === 'complete' && run.feed)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const entries = completed.map((run, index): FeedHistoryEntry => {
+    const previous = index > 0 ? completed[index - 1] : undefined;
+    const feed = run.feed ?? [];
+    const previousFeed = previous?.feed ?? [];
+    const previousKeys = new Set(previousFeed.map(itemKey));
+    const currentKeys = new Set(feed.map(itemKey));
+
+    return {
+      runId: run.id,
+      createdAt: run.createdAt,
+      items: feed.map(item => ({ ...item, status: previousKeys.has(itemKey(item)) ? 'repeat' : 'new' })),
+      dropped: previousFeed.filter(item => !currentKeys.has(itemKey(item))),
+      keywordChanges: previous ? diffWeights(keywordWeightMap(previous.profile), keywordWeightMap(run.profile)) : [],
+      sourceFocusChanges: previous
+        ? diffWeights(previous.profile?.sourceFocus ?? {}, run.profile?.sourceFocus ?? {})
+        : [],
+      promptChanges: previous ? diffPromptVersions(runPromptVersions(previous), runPromptVersions(run)) : [],
+    };
+  });
+
+  return entries.reverse();
+}
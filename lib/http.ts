@@ -0,0 +1,144 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { currentBudget } from './budget';
+
+export const HTTP_TIMEOUT_MS = Number(process.env.HTTP_TIMEOUT_MS ?? 8000);
+
+export const USER_AGENT = 'NeuralFeed/0.1 (https://github.com/jianingqi/neural-feed)';
+
+type FetchInit = RequestInit & { timeoutMs?: number };
+
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local, shared, reserved and multicast ranges; IPv4-mapped IPv6 addresses are checked against the IPv4 rules.
+const nonPublicAddresses = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+].forEach(([address, prefix]) => nonPublicAddresses.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([address, prefix]) => nonPublicAddresses.addSubnet(address as string, prefix as number, 'ipv6'));
+
+export async function fetchWithTimeout(url: string, init: FetchInit = {}) {
+  // Inside a run, each request counts against its budget and never outlives the run's time.
+  const budget = currentBudget();
+  budget?.charge('httpRequests');
+  const timeoutMs = Math.min(init.timeoutMs ?? HTTP_TIMEOUT_MS, budget?.remainingMs() ?? Infinity);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(url, {
+      ...init,
+      signal: controller.signal,
+      cache: 'no-store',
+    });
+    return response;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+export async function fetchJson<T>(url: string, init: FetchInit = {}) {
+  const res = await fetchWithTimeout(url, {
+    ...init,
+    headers: {
+      'User-Agent': USER_AGENT,
+      Accept: 'application/json',
+      ...(init.headers ?? {}),
+    },
+  });
+  if (!res.ok) {
+    let debug = '';
+    try {
+      debug = await res.text();
+    } catch {
+      // ignore
+    }
+    throw new Error(`HTTP ${res.status} for ${url}${debug ? ` — ${debug.slice(0, 280)}` : ''}`);
+  }
+  return (await res.json()) as T;
+}
+
+function textRequest(init: FetchInit): FetchInit {
+  return {
+    ...init,
+    headers: {
+      'User-Agent': USER_AGENT,
+      Accept: 'text/html,application/xhtml+xml',
+      ...(init.headers ?? {}),
+    },
+  };
+}
+
+export async function fetchText(url: string, init: FetchInit = {}) {
+  const res = await fetchWithTimeout(url, textRequest(init));
+  if (!res.ok) {
+    throw new Error(`HTTP ${res.status} for ${url}`);
+  }
+  return res.text();
+}
+
+/** True when the URL is http(s) and every address its host resolves to is publicly routable. */
+export async function isPublicUrl(url: string) {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false;
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  try {
+    const addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true });
+    return (
+      addresses.length > 0 &&
+      addresses.every(({ address, family }) => !nonPublicAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4'))
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * `fetchWithTimeout` for URLs a user or model supplies rather than a connector:
+ * the URL and every redirect must pass `isPublicUrl`, so the server cannot be
+ * pointed at itself or its private network.
+ */
+export async function fetchPublic(url: string, init: FetchInit = {}) {
+  let current = url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+    if (!(await isPublicUrl(current))) {
+      throw new Error(`Refusing to fetch non-public URL ${current}`);
+    }
+    const res = await fetchWithTimeout(current, { ...init, redirect: 'manual' });
+    const location = res.headers.get('location');
+    if (res.status >= 300 && res.status < 400 && location) {
+      current = new URL(location, current).toString();
+      continue;
+    }
+    return res;
+  }
+  throw new Error(`Too many redirects for ${url}`);
+}
+
+/** `fetchText` through `fetchPublic`. */
+export async function fetchPublicText(url: string, init: FetchInit = {}) {
+  const res = await fetchPublic(url, textRequest(init));
+  if (!res.ok) {
+    throw new Error(`HTTP ${res.status} for ${res.url || url}`);
+  }
+  return res.text();
+}
@@ -0,0 +1,33 @@
+import { env } from './env';
+import { USER_AGENT } from './http';
+
+export const HUGGINGFACE_BASE_URL = 'https://huggingface.co';
+
+// First path segments on huggingface.co that are site sections rather than users or orgs.
+const RESERVED_PATHS = new Set([
+  'models', 'datasets', 'spaces', 'papers', 'docs', 'blog', 'posts', 'collections', 'learn', 'pricing',
+  'login', 'join', 'settings', 'organizations', 'tasks', 'api',
+]);
+
+export function huggingfaceHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {
+    Accept: 'application/json',
+    'User-Agent': USER_AGENT,
+  };
+  if (env.huggingfaceToken) {
+    headers.Authorization = `Bearer ${env.huggingfaceToken}`;
+  }
+  return headers;
+}
+
+/** `huggingface.co/<user>` (or an org) → `<user>`; null for site sections and non-HF URLs. */
+export function huggingfaceUsername(url: string) {
+  try {
+    const parsed = new URL(url);
+    if (parsed.hostname.toLowerCase().replace(/^www\./, '') !== 'huggingface.co') return null;
+    const [first] = parsed.pathname.split('/').filter(Boolean);
+    return first && !RESERVED_PATHS.has(first.toLowerCase()) ? first : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,6 @@
+import { createHash } from 'crypto';
+
+/** Short deterministic id for a URL or other key; unlike a base64 prefix it differs for URLs sharing a host. */
+export function hashId(prefix: string, value: string) {
+  return `${prefix}-${createHash('sha1').update(value).digest('hex').slice(0, 12)}`;
+}
@@ -0,0 +1,7 @@
+/** A JSON body with its status, as every API route answers outside the feed's event stream. */
+export function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,41 @@
+import type { ProfileLens } from '../types';
+
+export interface LensDescriptor {
+  id: ProfileLens;
+  label: string;
+  /** One line shown next to the picker so readers know what the profile stage will infer. */
+  description: string;
+}
+
+const descriptors: LensDescriptor[] = [
+  {
+    id: 'psychological',
+    label: 'Psychological',
+    description: 'Reads motivations, goals and working style from public activity.',
+  },
+  {
+    id: 'professional',
+    label: 'Professional',
+    description: 'Professional interests and public work only; no personality inference.',
+  },
+  {
+    id: 'research',
+    label: 'Research',
+    description: 'Research areas, methods and open questions; no personality inference.',
+  },
+];
+
+export const DEFAULT_PROFILE_LENS: ProfileLens = 'psychological';
+
+export function profileLenses() {
+  return descriptors;
+}
+
+export function isProfileLens(value: unknown): value is ProfileLens {
+  return descriptors.some(descriptor => descriptor.id === value);
+}
+
+/** Cards saved before lenses existed were built with the psychological prompt. */
+export function getLensDescriptor(lens: ProfileLens = DEFAULT_PROFILE_LENS) {
+  return descriptors.find(descriptor => descriptor.id === lens) ?? descriptors[0];
+}
@@ -0,0 +1,108 @@
+import { BudgetExceededError, chargeLlmCall, recordLlmUsage } from '../budget';
+import { env } from '../env';
+import { truncate } from '../text';
+import { SchemaValidationError, parseJsonReply } from './json-schema';
+import type { ResponseSchema } from './json-schema';
+import { createLocalProvider } from './local';
+import { createMockProvider } from './mock';
+import { createOpenAIProvider } from './openai';
+import type { LlmPrompt, LlmProvider, LlmProviderId, LlmStage } from './types';
+
+export { openaiClient } from './openai';
+export type { LlmPrompt, LlmProvider, LlmProviderId, LlmStage } from './types';
+
+interface StageRoute {
+  provider: LlmProvider;
+  model: string;
+}
+
+const providers = new Map<LlmProviderId, LlmProvider>();
+
+export function registerProvider(provider: LlmProvider) {
+  providers.set(provider.id, provider);
+}
+
+[createOpenAIProvider(), createLocalProvider(), createMockProvider()].forEach(registerProvider);
+
+/**
+ * The stage's provider chain, e.g. `local:llama3.1,openai`: each entry is a provider id with an
+ * optional model after the first colon. Unknown and unavailable providers are dropped.
+ */
+export function stageRoutes(stage: LlmStage): StageRoute[] {
+  const chain = env.llmStageProviders[stage] || env.llmProviders;
+  return chain
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .flatMap(entry => {
+      const separator = entry.indexOf(':');
+      const id = (separator === -1 ? entry : entry.slice(0, separator)).toLowerCase() as LlmProviderId;
+      const provider = providers.get(id);
+      if (!provider || !provider.available()) return [];
+      const model = separator === -1 ? '' : entry.slice(separator + 1).trim();
+      return [{ provider, model: model || provider.defaultModel(stage) }];
+    });
+}
+
+/** Whether any provider can serve the stage; callers use their heuristic path otherwise. */
+export function hasLlm(stage: LlmStage) {
+  return stageRoutes(stage).length > 0;
+}
+
+/** One provider call, counted against the run's budget. */
+async function request(route: StageRoute, stage: LlmStage, prompt: LlmPrompt, format: ResponseSchema<unknown>) {
+  const timeoutMs = chargeLlmCall();
+  const completion = await route.provider.complete({ ...prompt, stage, model: route.model, timeoutMs, format });
+  recordLlmUsage(completion.inputTokens, completion.outputTokens);
+  return completion.text.trim();
+}
+
+function repairPrompt(prompt: LlmPrompt, reply: string, error: SchemaValidationError): LlmPrompt {
+  return {
+    ...prompt,
+    temperature: 0,
+    user: `${prompt.user}
+
+Your previous reply did not match the required JSON schema:
+${error.errors.map(message => `- ${message}`).join('\n')}
+
+Previous reply:
+${truncate(reply, 4000)}
+
+Return the corrected JSON object only.`,
+  };
+}
+
+/**
+ * Asks the stage's providers in order for a reply matching `format` and returns
+ * the first valid one. A reply that fails validation gets one repair prompt
+ * listing the errors before the next provider is tried. Throws when the chain
+ * is exhausted, so callers take their heuristic fallback; a spent run budget
+ * ends the chain early.
+ */
+export async function completeJson<T>(stage: LlmStage, prompt: LlmPrompt, format: ResponseSchema<T>): Promise<T> {
+  const routes = stageRoutes(stage);
+  if (routes.length === 0) {
+    throw new Error(`No LLM provider available for the ${stage} stage.`);
+  }
+
+  let lastError: unknown;
+  for (const route of routes) {
+    try {
+      const reply = await request(route, stage, prompt, format);
+      try {
+        return parseJsonReply(reply, format);
+      } catch (error) {
+        if (!(error instanceof SchemaValidationError)) throw error;
+        console.warn(`[llm] ${route.provider.id}:${route.model} returned an invalid ${format.name}; asking for a repair`, error.errors);
+        const repaired = await request(route, stage, repairPrompt(prompt, reply, error), format);
+        return parseJsonReply(repaired, format);
+      }
+    } catch (error) {
+      if (error instanceof BudgetExceededError) throw error;
+      lastError = error;
+      console.error(`[llm] ${route.provider.id}:${route.model} failed for ${stage}`, error);
+    }
+  }
+  throw lastError;
+}
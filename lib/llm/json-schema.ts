@@ -0,0 +1,131 @@
+/**
+ * The subset of JSON Schema the LLM response shapes use. The same object is sent
+ * to providers with a structured-output mode and checked locally with
+ * `validateJson`, since not every provider enforces it.
+ */
+export interface JsonSchema<T = unknown> {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  enum?: string[];
+  /** Never set: carries the type a valid value has. */
+  readonly __type?: T;
+}
+
+export interface ResponseSchema<T> {
+  /** Sent as the structured-output format name; letters, digits, `_` and `-` only. */
+  name: string;
+  schema: JsonSchema<T>;
+}
+
+const MAX_REPORTED_ERRORS = 6;
+
+export class SchemaValidationError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`Invalid LLM JSON: ${errors.join('; ')}`);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+export function defineSchema<T>(name: string, schema: JsonSchema): ResponseSchema<T> {
+  return { name, schema: schema as JsonSchema<T> };
+}
+
+function describe(value: unknown) {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function collectErrors(schema: JsonSchema, value: unknown, path: string, errors: string[]) {
+  if (errors.length >= MAX_REPORTED_ERRORS) return;
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${path} must be an object, got ${describe(value)}`);
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined || record[key] === null) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+      for (const [key, property] of Object.entries(schema.properties ?? {})) {
+        if (record[key] !== undefined && record[key] !== null) {
+          collectErrors(property, record[key], `${path}.${key}`, errors);
+        }
+      }
+      return;
+    }
+    case 'array': {
+      if (!Array.isArray(value)) {
+        errors.push(`${path} must be an array, got ${describe(value)}`);
+        return;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path} needs at least ${schema.minItems} items`);
+      }
+      if (schema.items) {
+        const items = schema.items;
+        value.forEach((entry, index) => collectErrors(items, entry, `${path}[${index}]`, errors));
+      }
+      return;
+    }
+    case 'string': {
+      if (typeof value !== 'string') {
+        errors.push(`${path} must be a string, got ${describe(value)}`);
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        errors.push(`${path} must be one of ${schema.enum.join(', ')}`);
+      }
+      return;
+    }
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`${path} must be a number, got ${describe(value)}`);
+      } else if (schema.type === 'integer' && !Number.isInteger(value)) {
+        errors.push(`${path} must be an integer`);
+      }
+      return;
+    }
+    case 'boolean': {
+      if (typeof value !== 'boolean') {
+        errors.push(`${path} must be a boolean, got ${describe(value)}`);
+      }
+      return;
+    }
+  }
+}
+
+/** Error messages for `value` against `schema` (at most a handful); empty when valid. */
+export function validateJson(schema: JsonSchema, value: unknown): string[] {
+  const errors: string[] = [];
+  collectErrors(schema, value, '$', errors);
+  return errors;
+}
+
+/**
+ * Parses the JSON object in a reply (models sometimes wrap it in prose or code
+ * fences) and validates it. Throws `SchemaValidationError` listing what is wrong.
+ */
+export function parseJsonReply<T>(text: string, { schema }: ResponseSchema<T>): T {
+  const jsonStart = text.indexOf('{');
+  const jsonEnd = text.lastIndexOf('}');
+  if (jsonStart === -1 || jsonEnd <= jsonStart) {
+    throw new SchemaValidationError(['no JSON object found in the reply']);
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(text.slice(jsonStart, jsonEnd + 1));
+  } catch (error) {
+    throw new SchemaValidationError([`reply is not valid JSON (${error instanceof Error ? error.message : 'parse error'})`]);
+  }
+  const errors = validateJson(schema, value);
+  if (errors.length > 0) {
+    throw new SchemaValidationError(errors);
+  }
+  return value as T;
+}
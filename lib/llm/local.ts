@@ -0,0 +1,41 @@
+import OpenAI from 'openai';
+import { env } from '../env';
+import type { LlmProvider } from './types';
+
+/**
+ * An OpenAI-compatible server such as Ollama or the llama.cpp server. These
+ * expose Chat Completions rather than the Responses API.
+ */
+export function createLocalProvider(): LlmProvider {
+  let client: OpenAI | null = null;
+
+  return {
+    id: 'local',
+    // Only listed when configured, so the server is assumed to be there; a failed call falls through the chain.
+    available: () => Boolean(env.localLlmBaseUrl),
+    defaultModel: () => env.localLlmModel,
+    async complete({ model, temperature, system, user, timeoutMs, format }) {
+      // Local servers ignore the key, but the SDK requires one.
+      client ??= new OpenAI({ apiKey: env.localLlmApiKey || 'local', baseURL: env.localLlmBaseUrl, maxRetries: 0 });
+      const completion = await client.chat.completions.create(
+        {
+          model,
+          temperature,
+          messages: [
+            { role: 'system', content: system },
+            { role: 'user', content: user },
+          ],
+          response_format: format
+            ? { type: 'json_schema', json_schema: { name: format.name, schema: { ...format.schema }, strict: false } }
+            : undefined,
+        },
+        timeoutMs === undefined ? undefined : { timeout: timeoutMs },
+      );
+      return {
+        text: completion.choices[0]?.message?.content ?? '',
+        inputTokens: completion.usage?.prompt_tokens ?? 0,
+        outputTokens: completion.usage?.completion_tokens ?? 0,
+      };
+    },
+  };
+}
@@ -0,0 +1,74 @@
+import { readFileSync } from 'fs';
+import { env } from '../env';
+import type { LlmProvider, LlmStage } from './types';
+
+/**
+ * Canned replies per stage. A stage with several prompts gets one object holding every key they read,
+ * e.g. the profile card and the signal augmentation. Candidate lists and the ranking are left empty
+ * so discovery and ranking take their heuristic paths over real search results.
+ */
+const cannedResponses: Record<LlmStage, unknown> = {
+  discover: { candidates: [] },
+  profile: {
+    summary: 'Practitioner interested in machine learning systems and open-source tooling.',
+    keywords: ['machine learning', 'language models', 'open source'],
+    queries: ['language model evaluation', 'open source ml tooling'],
+    preferences: { depth: 'mixed', format: 'mixed', novelty: 'medium' },
+    evidence: [],
+    keyword_weights: [
+      { keyword: 'machine learning', weight: 0.4 },
+      { keyword: 'language models', weight: 0.4 },
+      { keyword: 'open source', weight: 0.2 },
+    ],
+    additional_queries: ['ml systems engineering'],
+    preference_notes: 'Canned mock profile.',
+  },
+  plan: {
+    arxiv: ['language models'],
+    hn: ['LLM'],
+    reddit: ['machine learning'],
+    lobsters: ['ai'],
+    github: ['llm'],
+    hf: ['text-generation'],
+    video: ['machine learning talk'],
+    podcast: ['machine learning'],
+    news: ['language models'],
+    social: ['machine learning'],
+    rss: ['machine learning'],
+    rewrites: [],
+  },
+  rank: { top: [] },
+  deepen: {
+    tldr: 'Canned digest from the mock LLM provider.',
+    why_me: 'It matches the mock profile.',
+    next_actions: ['Skim the linked resource.', 'Note one takeaway.', 'Revisit it in the next refresh.'],
+  },
+};
+
+function loadFixtures(path: string): Partial<Record<LlmStage, unknown>> {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as Partial<Record<LlmStage, unknown>>;
+  } catch (error) {
+    console.error('[llm] loading MOCK_LLM_RESPONSES failed', error);
+    return {};
+  }
+}
+
+/** Deterministic replies for offline development and tests; `MOCK_LLM_RESPONSES` can point at a JSON file overriding stages. */
+export function createMockProvider(): LlmProvider {
+  let fixtures: Partial<Record<LlmStage, unknown>> | null = null;
+
+  return {
+    id: 'mock',
+    available: () => true,
+    defaultModel: () => 'mock',
+    async complete({ stage }) {
+      fixtures ??= env.mockLlmResponses ? loadFixtures(env.mockLlmResponses) : {};
+      return {
+        text: JSON.stringify(fixtures[stage] ?? cannedResponses[stage]),
+        inputTokens: 0,
+        outputTokens: 0,
+      };
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import OpenAI from 'openai';
+import { env } from '../env';
+import type { LlmProvider, LlmStage } from './types';
+
+/** Shared with the orchestrator, which needs the Responses API's tool calling. */
+export const openaiClient = env.openaiApiKey ? new OpenAI({ apiKey: env.openaiApiKey }) : null;
+
+const stageModels: Record<LlmStage, string> = {
+  discover: env.openaiModelProfile,
+  profile: env.openaiModelProfile,
+  plan: env.openaiModelRank,
+  rank: env.openaiModelRank,
+  deepen: env.openaiModelDeepen,
+};
+
+export function createOpenAIProvider(): LlmProvider {
+  return {
+    id: 'openai',
+    available: () => Boolean(openaiClient),
+    defaultModel: stage => stageModels[stage],
+    async complete({ model, temperature, system, user, timeoutMs, format }) {
+      if (!openaiClient) {
+        throw new Error('OPENAI_API_KEY is not set.');
+      }
+      const response = await openaiClient.responses.create(
+        {
+          model,
+          temperature,
+          input: [
+            { role: 'system', content: system },
+            { role: 'user', content: user },
+          ],
+          // Not strict: strict mode needs every property required, and the local validator checks the reply anyway.
+          text: format
+            ? { format: { type: 'json_schema', name: format.name, schema: { ...format.schema }, strict: false } }
+            : undefined,
+        },
+        timeoutMs === undefined ? undefined : { timeout: timeoutMs },
+      );
+      return {
+        text: response.output_text,
+        inputTokens: response.usage?.input_tokens ?? 0,
+        outputTokens: response.usage?.output_tokens ?? 0,
+      };
+    },
+  };
+}
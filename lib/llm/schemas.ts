@@ -0,0 +1,185 @@
+import type { DeepenDigest, ProfileCardData, QuerySlot, SourceQueryPlan } from '../../types';
+import { defineSchema } from './json-schema';
+import type { JsonSchema } from './json-schema';
+
+const text = (description?: string): JsonSchema => ({ type: 'string', description });
+const textList = (description?: string): JsonSchema => ({ type: 'array', items: { type: 'string' }, description });
+
+export interface ClusterReply {
+  candidates: Array<{
+    display_name: string;
+    primary_url: string;
+    summary: string;
+    support_urls: string[];
+  }>;
+}
+
+export const clusterSchema = defineSchema<ClusterReply>('candidate_clusters', {
+  type: 'object',
+  properties: {
+    candidates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          display_name: text(),
+          primary_url: text('One of the listed URLs.'),
+          summary: text('Short factual summary, at most 30 words.'),
+          support_urls: textList(),
+        },
+        required: ['display_name', 'primary_url', 'summary', 'support_urls'],
+      },
+    },
+  },
+  required: ['candidates'],
+});
+
+export interface MergeReply {
+  candidates: Array<{
+    display_name: string;
+    primary_url: string;
+    summary?: string;
+    support_urls?: string[];
+    source?: 'github' | 'site';
+  }>;
+}
+
+export const mergeSchema = defineSchema<MergeReply>('merged_candidates', {
+  type: 'object',
+  properties: {
+    candidates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          display_name: text(),
+          primary_url: text(),
+          summary: text(),
+          support_urls: textList(),
+          source: { type: 'string', enum: ['github', 'site'] },
+        },
+        required: ['display_name', 'primary_url'],
+      },
+    },
+  },
+  required: ['candidates'],
+});
+
+export type ProfileCardReply = Pick<ProfileCardData, 'summary' | 'keywords' | 'queries' | 'preferences' | 'evidence'>;
+
+export const profileCardSchema = defineSchema<ProfileCardReply>('profile_card', {
+  type: 'object',
+  properties: {
+    summary: text(),
+    keywords: textList(),
+    queries: textList(),
+    preferences: {
+      type: 'object',
+      properties: {
+        depth: { type: 'string', enum: ['theory', 'practice', 'mixed'] },
+        format: { type: 'string', enum: ['code', 'essay', 'video', 'mixed'] },
+        novelty: { type: 'string', enum: ['low', 'medium', 'high'] },
+      },
+      required: ['depth', 'format', 'novelty'],
+    },
+    evidence: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { claim: text(), support_url: text() },
+        required: ['claim', 'support_url'],
+      },
+    },
+  },
+  required: ['summary', 'keywords', 'queries', 'preferences', 'evidence'],
+});
+
+export interface AugmentationReply {
+  keyword_weights: Array<{ keyword: string; weight: number; rationale?: string }>;
+  additional_queries?: string[];
+  preference_notes?: string;
+}
+
+export const augmentationSchema = defineSchema<AugmentationReply>('profile_signals', {
+  type: 'object',
+  properties: {
+    keyword_weights: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          keyword: text(),
+          weight: { type: 'number', description: 'Between 0 and 1.' },
+          rationale: text(),
+        },
+        required: ['keyword', 'weight'],
+      },
+    },
+    additional_queries: textList(),
+    preference_notes: text(),
+  },
+  required: ['keyword_weights'],
+});
+
+/** The plan has one query list per planned slot, so its schema is built from the slots of the run. */
+export function queryPlanSchema(slots: QuerySlot[]) {
+  return defineSchema<SourceQueryPlan>('query_plan', {
+    type: 'object',
+    properties: Object.fromEntries(slots.map(slot => [slot, textList()])),
+    required: slots,
+  });
+}
+
+export interface QueryRewriteReply {
+  rewrites: Array<{ slot: string; query: string; rewrite: string }>;
+}
+
+export const queryRewriteSchema = defineSchema<QueryRewriteReply>('query_rewrites', {
+  type: 'object',
+  properties: {
+    rewrites: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { slot: text(), query: text(), rewrite: text() },
+        required: ['slot', 'query', 'rewrite'],
+      },
+    },
+  },
+  required: ['rewrites'],
+});
+
+export interface RankingReply {
+  top: Array<{ id: string; score?: number; novelty?: string; summary: string; because: string }>;
+}
+
+export const rankingSchema = defineSchema<RankingReply>('feed_ranking', {
+  type: 'object',
+  properties: {
+    top: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: text('A candidate ID from the list.'),
+          score: { type: 'number' },
+          novelty: { type: 'string', enum: ['stretch', 'core', 'comfort'] },
+          summary: text('At most 25 words.'),
+          because: text('At most 18 words.'),
+        },
+        required: ['id', 'summary', 'because'],
+      },
+    },
+  },
+  required: ['top'],
+});
+
+export const deepenSchema = defineSchema<DeepenDigest>('deepen_digest', {
+  type: 'object',
+  properties: {
+    tldr: text('At most 40 words.'),
+    why_me: text('At most 20 words.'),
+    next_actions: { type: 'array', items: { type: 'string' }, minItems: 1, description: 'Three concise imperatives.' },
+  },
+  required: ['tldr', 'why_me', 'next_actions'],
+});
@@ -0,0 +1,36 @@
+import type { ResponseSchema } from './json-schema';
+
+/** Pipeline steps that call an LLM; each picks its own provider chain. */
+export type LlmStage = 'discover' | 'profile' | 'plan' | 'rank' | 'deepen';
+
+export type LlmProviderId = 'openai' | 'local' | 'mock';
+
+export interface LlmPrompt {
+  system: string;
+  user: string;
+  temperature: number;
+}
+
+export interface LlmRequest extends LlmPrompt {
+  stage: LlmStage;
+  model: string;
+  /** Abort after this long; set inside a run so calls never outlive its time budget. */
+  timeoutMs?: number;
+  /** Requested reply shape, for providers with a structured-output mode. */
+  format?: ResponseSchema<unknown>;
+}
+
+export interface LlmCompletion {
+  text: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  /** Providers that report false (e.g. no API key) are skipped in a stage's chain. */
+  available: () => boolean;
+  /** Model used when a stage names the provider without one. */
+  defaultModel: (stage: LlmStage) => string;
+  complete: (request: LlmRequest) => Promise<LlmCompletion>;
+}
@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type { ProfileCardData } from '../types';
+import type { CandidateContent } from './connectors';
+import { rankLocally } from './local-ranker';
+
+const profile: ProfileCardData = {
+  summary: '',
+  keywords: ['diffusion'],
+  keywordWeights: [{ keyword: 'diffusion', weight: 1 }],
+  queries: [],
+  evidence: [],
+  preferences: { depth: 'mixed', format: 'mixed', novelty: 'medium' },
+};
+
+function candidate(id: string, snippet: string): CandidateContent {
+  return { id, source: 'arxiv', title: id, snippet, url: `https://example.com/${id}`, date: '2024-01-01' };
+}
+
+test('a keyword that ends a sentence still matches', () => {
+  const ranking = rankLocally(
+    profile,
+    [candidate('other', 'A survey of graph networks.'), candidate('match', 'We study sampling for diffusion.')],
+    { now: Date.parse('2024-01-02') },
+  );
+  assert.equal(ranking[0].item.id, 'match');
+  assert.deepEqual(ranking[0].matched, ['diffusion']);
+});
@@ -0,0 +1,165 @@
+import type { ProfileCardData } from '../types';
+import type { CandidateContent } from './connectors';
+import { getSourceDescriptor } from './sources';
+import { queryTerms, stemTerm, truncate } from './text';
+
+// BM25 term-frequency saturation and length normalisation.
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Relevance is normalised to [0, 1] per pool; the other parts are scaled against it.
+const RELEVANCE_WEIGHT = 6;
+const RECENCY_WEIGHT = 2;
+const SOURCE_FOCUS_WEIGHT = 1;
+const RECENCY_HALF_LIFE_DAYS = 30;
+// Undated items count as one half-life old rather than brand new.
+const UNDATED_RECENCY = 0.5;
+const MAX_REASON_KEYWORDS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LocalRanking {
+  item: CandidateContent;
+  score: number;
+  /** Profile keywords the item mentions, strongest contribution first. */
+  matched: string[];
+  relevance: number;
+  recency: number;
+  sourcePrior: number;
+}
+
+export interface LocalRankerOptions {
+  /** Extra per-item score added to the total, e.g. engagement and feedback. */
+  boost?: (item: CandidateContent) => number;
+  /** Reference time for recency decay; fix it to make rankings reproducible. */
+  now?: number;
+}
+
+function tokenize(text: string) {
+  return queryTerms(text).map(stemTerm);
+}
+
+function documentText(item: CandidateContent) {
+  return [
+    item.title,
+    item.snippet,
+    item.community,
+    item.hub?.tags.join(' '),
+    item.repo?.topics.join(' '),
+    item.repo?.language,
+    item.paper?.venue,
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+function profileKeywords(profile: ProfileCardData) {
+  const weights = profile.keywordWeights && profile.keywordWeights.length > 0
+    ? profile.keywordWeights
+    : profile.keywords.map(keyword => ({ keyword, weight: 1 / Math.max(profile.keywords.length, 1) }));
+  return weights
+    .map(({ keyword, weight }) => ({ keyword, weight, terms: Array.from(new Set(tokenize(keyword))) }))
+    .filter(entry => entry.terms.length > 0 && entry.weight > 0);
+}
+
+/** Halves every `RECENCY_HALF_LIFE_DAYS`; dates in the future count as today. */
+function recencyScore(date: string, now: number) {
+  const time = Date.parse(date);
+  if (Number.isNaN(time)) return UNDATED_RECENCY;
+  const ageDays = Math.max(0, now - time) / DAY_MS;
+  return Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+}
+
+/**
+ * A source's share of `sourceFocus` relative to an even split, so a source
+ * holding twice its fair share scores 2. Sources outside the focus score 0.
+ */
+function sourcePriors(profile: ProfileCardData) {
+  const focus = profile.sourceFocus ?? {};
+  const count = Object.keys(focus).length;
+  return (source: string) => (focus[source] ?? 0) * count;
+}
+
+/**
+ * Deterministic ranking for runs without an LLM: BM25 of the weighted profile
+ * keywords over each item's text, recency decay from its date and the
+ * profile's source focus, plus an optional `boost`. A keyword matches when
+ * all of its terms occur. Ties keep the input order.
+ */
+export function rankLocally(
+  profile: ProfileCardData,
+  items: CandidateContent[],
+  { boost, now = Date.now() }: LocalRankerOptions = {},
+): LocalRanking[] {
+  const keywords = profileKeywords(profile);
+  const documents = items.map(item => {
+    const terms = tokenize(documentText(item));
+    const frequencies = new Map<string, number>();
+    for (const term of terms) frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+    return { length: terms.length, frequencies };
+  });
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / Math.max(documents.length, 1) || 1;
+  const documentFrequency = new Map<string, number>();
+  for (const doc of documents) {
+    for (const term of doc.frequencies.keys()) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+  }
+  const idf = (term: string) => {
+    const df = documentFrequency.get(term) ?? 0;
+    return Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+  };
+  const prior = sourcePriors(profile);
+
+  const scored = items.map((item, index) => {
+    const doc = documents[index];
+    const norm = BM25_K1 * (1 - BM25_B + (BM25_B * doc.length) / averageLength);
+    const contributions = keywords.flatMap(({ keyword, weight, terms }) => {
+      if (!terms.every(term => doc.frequencies.has(term))) return [];
+      const termScore = terms.reduce((sum, term) => {
+        const tf = doc.frequencies.get(term) ?? 0;
+        return sum + idf(term) * ((tf * (BM25_K1 + 1)) / (tf + norm));
+      }, 0);
+      return [{ keyword, value: (weight * termScore) / terms.length }];
+    });
+    contributions.sort((a, b) => b.value - a.value);
+    return {
+      item,
+      matched: contributions.map(entry => entry.keyword),
+      bm25: contributions.reduce((sum, entry) => sum + entry.value, 0),
+      recency: recencyScore(item.date, now),
+      sourcePrior: prior(item.source),
+    };
+  });
+
+  const maxBm25 = Math.max(0, ...scored.map(entry => entry.bm25));
+  return scored
+    .map(({ bm25, ...entry }): LocalRanking => {
+      const relevance = maxBm25 > 0 ? bm25 / maxBm25 : 0;
+      return {
+        ...entry,
+        relevance,
+        score:
+          RELEVANCE_WEIGHT * relevance +
+          RECENCY_WEIGHT * entry.recency +
+          SOURCE_FOCUS_WEIGHT * entry.sourcePrior +
+          (boost?.(entry.item) ?? 0),
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/** The `because` line for a locally ranked item: the keywords it matched, else why it still made the cut. */
+export function explainLocalRanking(ranking: LocalRanking, firstName: string) {
+  const source = getSourceDescriptor(ranking.item.source).name;
+  if (ranking.matched.length > 0) {
+    const keywords = ranking.matched.slice(0, MAX_REASON_KEYWORDS);
+    const list = keywords.length > 1
+      ? `${keywords.slice(0, -1).join(', ')} and ${keywords[keywords.length - 1]}`
+      : keywords[0];
+    return truncate(`Mentions ${list}, from ${firstName}'s weighted interests.`, 120);
+  }
+  if (ranking.sourcePrior >= 1) {
+    return truncate(`From ${source}, a source ${firstName}'s profile leans on.`, 120);
+  }
+  if (ranking.recency >= 0.5) {
+    return truncate(`Recent ${source} item from ${firstName}'s planned queries.`, 120);
+  }
+  return truncate(`Surfaced by ${firstName}'s planned ${source} queries.`, 120);
+}
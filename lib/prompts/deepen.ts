@@ -0,0 +1,17 @@
+import { definePrompt } from './registry';
+
+export const deepenPrompt = definePrompt<{ profile: string; item: string }>({
+  id: 'deepen.digest',
+  default: {
+    version: 1,
+    temperature: 0.2,
+    system: 'You craft tailored digests for the user. Return JSON only, no prose.',
+    user: ({ profile, item }) => `Profile card:
+${profile}
+
+Feed item:
+${item}
+
+Produce JSON with keys tldr (<=40 words), why_me (<=20 words), next_actions (3 concise imperatives).`,
+  },
+});
@@ -0,0 +1,54 @@
+import { definePrompt } from './registry';
+
+export const clusterPrompt = definePrompt<{ name: string; snippets: string }>({
+  id: 'discover.cluster',
+  default: {
+    version: 1,
+    temperature: 0.1,
+    system:
+      'You cluster search results referring to the same individual. Provide concise factual summaries and ensure URLs remain accurate.',
+    user: ({ name, snippets }) => `${snippets}
+
+You are helping cluster search results for the person named "${name}". Group the URLs that appear to describe the same individual. If the results obviously belong to different people, create separate entries. Prefer GitHub or personal sites as primary URLs. Output up to 6 candidates.
+
+Return JSON ONLY in the form:
+{
+  "candidates": [
+    {
+      "display_name": "...",
+      "primary_url": "...",
+      "summary": "short factual summary <=30 words",
+      "support_urls": ["...", "..."]
+    }
+  ]
+}
+
+Use only URLs from the list. Discard LinkedIn URLs in the output.`,
+  },
+});
+
+export const mergePrompt = definePrompt<{ name: string; candidates: string }>({
+  id: 'discover.merge',
+  default: {
+    version: 1,
+    temperature: 0.1,
+    system: 'You merge candidate web identities into distinct people with concise factual summaries.',
+    user: ({ name, candidates }) => `${candidates}
+
+You will merge candidate profiles that refer to the same person named "${name}".
+The candidates come from web search results. Merge those that clearly describe the same individual and retain distinct ones otherwise.
+Return JSON only:
+{
+  "candidates": [
+    {
+      "display_name": "...",
+      "primary_url": "...",
+      "summary": "short summary",
+      "support_urls": ["..."],
+      "source": "github|site"
+    }
+  ]
+}
+Prefer GitHub URLs as primary when present. Include all distinct support URLs.`,
+  },
+});
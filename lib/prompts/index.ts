@@ -0,0 +1,7 @@
+export { clusterPrompt, mergePrompt } from './discover';
+export { deepenPrompt } from './deepen';
+export { queryPlanPrompt, queryRewritePrompt } from './plan';
+export { profileCardPrompt, profileSignalsPrompt } from './profile';
+export { orchestratorPrompt, rankPrompt } from './rank';
+export { recordPromptVersion, recordedPromptVersions, renderPrompt, withPromptLog } from './registry';
+export type { PromptDefinition, PromptVariant, RenderedPrompt } from './registry';
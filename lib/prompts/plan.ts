@@ -0,0 +1,34 @@
+import { definePrompt } from './registry';
+
+export const queryPlanPrompt = definePrompt<{ sourceNames: string; template: string; sourceGuide: string; profile: string }>({
+  id: 'plan.queries',
+  default: {
+    version: 1,
+    temperature: 0.2,
+    system: ({ sourceNames }) =>
+      `You generate targeted search queries for different content sources (${sourceNames}) based on a profile. The queries should be specific to the profile and the sources to recommend the best content.`,
+    user: ({ template, sourceGuide, profile }) => `Given the profile below, craft focused search queries for each source so we retrieve high-signal items. Respect the per-source limits. Return JSON only in the schema:
+${template}
+
+Sources:
+${sourceGuide}
+
+Profile:
+${profile}`,
+  },
+});
+
+export const queryRewritePrompt = definePrompt<{ queries: string; keywords: string }>({
+  id: 'plan.rewrite',
+  default: {
+    version: 1,
+    temperature: 0.4,
+    system: 'You repair search queries that came back empty for a personalized feed.',
+    user: ({ queries, keywords }) => `These search queries returned too few results. Rewrite each one so its source is likely to return relevant items: broaden overly specific phrasing, drop rare terms, and follow the source's query style. Return JSON only in the schema {"rewrites":[{"slot":"","query":"","rewrite":""}]}.
+
+Queries:
+${queries}
+
+Profile keywords: ${keywords}`,
+  },
+});
@@ -0,0 +1,91 @@
+import { definePrompt } from './registry';
+import type { PromptVariant } from './registry';
+
+interface ProfileCardVars {
+  name: string;
+  documents: string;
+}
+
+function profileCardVariant(system: string, summary: string): PromptVariant<ProfileCardVars> {
+  return {
+    version: 1,
+    temperature: 0.3,
+    system,
+    user: ({ name, documents }) => `Build a profile card for "${name}" using the harvested documents below. Return JSON only, no commentary. Respect the schema:
+{
+  "summary": "${summary}",
+  "keywords": ["k1","k2","k3"],
+  "queries": ["q1","q2","q3"],
+  "preferences": {"depth":"theory|practice|mixed","format":"code|essay|video|mixed","novelty":"low|medium|high"},
+  "evidence": [{"claim":"string","support_url":"url"}]
+}
+
+Documents:
+${documents}`,
+  };
+}
+
+const psychologicalCard = profileCardVariant(
+  'You are an analyst turning harvested public data into a psychological profile card. The profile card should be a deep dive into the person\'s psychology, their motivations, their goals, and their interests.',
+  'string. a factual based comprehensive psychological profile of the person',
+);
+
+export const profileCardPrompt = definePrompt<ProfileCardVars>({
+  id: 'profile.card',
+  default: psychologicalCard,
+  lenses: {
+    psychological: psychologicalCard,
+    professional: profileCardVariant(
+      'You are an analyst turning harvested public data into a concise profile card of someone\'s professional interests. Be factual, avoid speculation, and respect the schema exactly. Describe their work and topics only; do not infer personality, motivations, emotions or private traits.',
+      'string<=80w. the topics, tools and kinds of work the person is publicly engaged in',
+    ),
+    research: profileCardVariant(
+      'You are an analyst turning harvested public data into a research profile card. Be factual, avoid speculation, and respect the schema exactly. Focus on research areas, methods, publications and open questions; do not infer personality, motivations, emotions or private traits.',
+      'string<=80w. the research areas, methods and open questions the person works on',
+    ),
+  },
+});
+
+interface ProfileSignalVars {
+  name: string;
+  documents: string;
+  signals: string;
+  summary: string;
+}
+
+function profileSignalVariant(notes: string): PromptVariant<ProfileSignalVars> {
+  return {
+    version: 1,
+    temperature: 0.2,
+    system: 'You synthesize profile signals, outputting strict JSON with weighted keywords and concise notes.',
+    user: ({ name, documents, signals, summary }) => `Expand the interest signals for ${name}. Use the documents and current profile to assign weights to keywords (normalized 0-1), recommend up to 4 fresh queries, and ${notes}. Return JSON exactly matching:
+{
+  "keyword_weights": [{"keyword": "...", "weight": 0.32, "rationale": "..."}],
+  "additional_queries": ["..."],
+  "preference_notes": "..."
+}
+
+Documents:
+${documents}
+
+Current signals:
+${signals}
+
+Profile summary:
+${summary}`,
+  };
+}
+
+// Preference notes feed the ranking prompt, so the work-only lenses keep them about content, not the person.
+const workSignals = profileSignalVariant(
+  'capture preference notes about topics, formats and depth only, without inferring personality or motivations',
+);
+
+export const profileSignalsPrompt = definePrompt<ProfileSignalVars>({
+  id: 'profile.signals',
+  default: profileSignalVariant('capture any preference notes'),
+  lenses: {
+    professional: workSignals,
+    research: workSignals,
+  },
+});
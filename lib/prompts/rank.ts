@@ -0,0 +1,49 @@
+import { definePrompt } from './registry';
+
+const FEEDBACK_INTRO = 'Reader feedback on earlier feeds (favour candidates like the liked items; avoid ones like the rest):';
+
+function feedbackSection(feedback: string) {
+  return feedback ? `\n${FEEDBACK_INTRO}\n${feedback}\n` : '';
+}
+
+export const rankPrompt = definePrompt<{ profile: string; candidates: string; signals: string; feedback: string }>({
+  id: 'rank.feed',
+  default: {
+    version: 1,
+    temperature: 0.5,
+    system:
+      'You are ranking candidate content for a personalized AI feed. Return JSON with the schema {"top":[{"id":"","score":0.0,"novelty":"","summary":"","because":""}]} using only provided candidates.',
+    user: ({ profile, candidates, signals, feedback }) => `Profile card:
+${profile}
+
+Candidates:
+${candidates}
+
+Interest signals:
+${signals}
+${feedbackSection(feedback)}
+Select up to 10 items aligned with the profile. Weight keyword matches by their weights and consider how frequently sources appear in the profile. Where engagement is listed, treat high points, comment counts, stars and (influential) citation counts as a quality signal, not a substitute for relevance. Provide brief summaries (<=25 words) and "because" lines (<=18 words). Limit to at most three items per source and include every available source if quality permits. Use "stretch" or "core" or "comfort" for novelty. Return JSON only.`,
+  },
+});
+
+export const orchestratorPrompt = definePrompt<{
+  firstName: string;
+  profile: string;
+  feedback: string;
+  toolCalls: number;
+  tokens: number;
+}>({
+  id: 'rank.orchestrator',
+  default: {
+    version: 1,
+    temperature: 0.3,
+    system:
+      'You curate a personalized AI feed by calling tools. Decide which sources fit the reader and how deep to search each, then finish with a ranked list drawn only from search results.',
+    user: ({ firstName, profile, feedback, toolCalls, tokens }) => `Build ${firstName}'s feed.
+
+Profile card:
+${profile}
+${feedbackSection(feedback)}
+Budget: ${toolCalls} tool calls and about ${tokens} tokens in total. Spend it on the sources that suit this reader: search them, search again where results are promising or a query came back thin, read items whose snippet is not enough to judge, and harvest a page only when it adds context. Run any pinned queries on their source. Then call finish with up to 10 items, at most three per source, with "summary" (<=25 words) and "because" (<=18 words) lines.`,
+  },
+});
@@ -0,0 +1,74 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { ProfileLens, PromptVersions } from '../../types';
+import type { LlmPrompt } from '../llm/types';
+
+/**
+ * One wording of a prompt. Bump `version` whenever the text or temperature
+ * changes, so runs recorded before and after the change can be told apart.
+ */
+export interface PromptVariant<V> {
+  version: number;
+  temperature: number;
+  system: string | ((vars: V) => string);
+  user: (vars: V) => string;
+}
+
+export interface PromptDefinition<V> {
+  /** Stable id, e.g. `profile.card`; runs record versions under it. */
+  id: string;
+  default: PromptVariant<V>;
+  /** Lens-specific wordings; lenses without one use the default. */
+  lenses?: Partial<Record<ProfileLens, PromptVariant<V>>>;
+}
+
+export interface RenderedPrompt extends LlmPrompt {
+  id: string;
+  /** `<id>@<lens>.v<n>` for lens variants, `<id>@v<n>` for the default. */
+  version: string;
+}
+
+/** Typed identity helper so each prompt's variables are checked against every variant. */
+export function definePrompt<V>(definition: PromptDefinition<V>): PromptDefinition<V> {
+  return definition;
+}
+
+function variantOf<V>(definition: PromptDefinition<V>, lens?: ProfileLens) {
+  const variant = lens ? definition.lenses?.[lens] : undefined;
+  return variant
+    ? { variant, version: `${definition.id}@${lens}.v${variant.version}` }
+    : { variant: definition.default, version: `${definition.id}@v${definition.default.version}` };
+}
+
+const log = new AsyncLocalStorage<PromptVersions>();
+
+/** Runs `task` with a fresh log of the prompt versions it records; read it with `recordedPromptVersions`. */
+export function withPromptLog<T>(task: () => Promise<T>): Promise<T> {
+  return log.run({}, task);
+}
+
+/**
+ * Logs the prompt's version against the current run. Call it once the reply
+ * has been used, so prompts whose calls failed into a fallback are not credited.
+ */
+export function recordPromptVersion(prompt: RenderedPrompt) {
+  const versions = log.getStore();
+  if (versions) versions[prompt.id] = prompt.version;
+}
+
+/** Prompt versions recorded so far in the current run, or undefined outside one. */
+export function recordedPromptVersions(): PromptVersions | undefined {
+  const versions = log.getStore();
+  return versions ? { ...versions } : undefined;
+}
+
+/** Fills in the variant for `lens`, or the default. */
+export function renderPrompt<V>(definition: PromptDefinition<V>, vars: V, lens?: ProfileLens): RenderedPrompt {
+  const { variant, version } = variantOf(definition, lens);
+  return {
+    id: definition.id,
+    version,
+    temperature: variant.temperature,
+    system: typeof variant.system === 'function' ? variant.system(vars) : variant.system,
+    user: variant.user(vars),
+  };
+}
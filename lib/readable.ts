@@ -0,0 +1,13 @@
+import { fetchPublicText, fetchText } from './http';
+import { stripHtml, truncate } from './text';
+
+/** With `publicOnly`, URLs that resolve to loopback or private addresses read as empty. */
+export async function extractReadableContent(url: string, { publicOnly = false } = {}) {
+  try {
+    const html = await (publicOnly ? fetchPublicText(url) : fetchText(url));
+    const text = stripHtml(html);
+    return truncate(text, 1200);
+  } catch {
+    return '';
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Process-wide state shared by every route handler. Next bundles each route
+ * separately, so a module-level value would exist once per route (and again
+ * after every dev reload); the value hangs off globalThis under `key` instead.
+ * `create` runs the first time the key is asked for.
+ */
+export function globalSingleton<T>(key: string, create: () => T): T {
+  const registry = globalThis as typeof globalThis & Record<string, unknown>;
+  if (!(key in registry)) {
+    registry[key] = create();
+  }
+  return registry[key] as T;
+}
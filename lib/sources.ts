@@ -0,0 +1,273 @@
+import type { FeedSource, ProfileCardData, QuerySlot } from '../types';
+
+type ContentFormat = ProfileCardData['preferences']['format'];
+
+/** One entry of the query plan, with what the planner needs to fill it. */
+export interface PlanSlotDescriptor {
+  id: QuerySlot;
+  /** Human-readable source name used in logs and panel copy. */
+  name: string;
+  /** What the query planner should aim for when writing queries for this source. */
+  planHint: string;
+  /** Suffixes the keyword fallback planner appends to weighted keywords and profile queries. */
+  fallbackSuffixes: {
+    keyword: string;
+    query: string;
+  };
+  /** Profiles preferring this format get extra queries and feed slots for the source. */
+  formatAffinity?: ContentFormat;
+  maxQueries: number;
+}
+
+export interface SourceDescriptor extends PlanSlotDescriptor {
+  id: FeedSource;
+  /** Short badge text shown on feed cards. */
+  label: string;
+  /**
+   * Reuse another source's planned queries, or a shared slot, instead of planning this source separately.
+   * The slot's `planHint` and `fallbackSuffixes` then win over this source's; its `maxQueries` only caps
+   * how many of the slot's queries it fetches.
+   */
+  planSlot?: QuerySlot;
+  perQueryCount: number;
+  /** How many items of this source the balanced feed keeps before overflow. */
+  perSourceCap: number;
+  badgeStyle: string;
+  accentStyle: string;
+}
+
+// Order matters: the planner, the rebalancer and the UI all iterate sources in this order.
+const descriptors: SourceDescriptor[] = [
+  {
+    id: 'arxiv',
+    label: 'arXiv',
+    name: 'arXiv',
+    planHint: 'research paper topics and technical terms for arXiv full-text search',
+    fallbackSuffixes: { keyword: 'arxiv', query: 'paper' },
+    maxQueries: 4,
+    perQueryCount: 3,
+    perSourceCap: 3,
+    badgeStyle: 'bg-purple-500/20 text-purple-200 border border-purple-500/40',
+    accentStyle: 'text-purple-300',
+  },
+  {
+    id: 'scholar',
+    label: 'Paper',
+    name: 'Semantic Scholar',
+    planHint: 'paper topics; shares the arXiv queries',
+    planSlot: 'arxiv',
+    fallbackSuffixes: { keyword: '', query: '' },
+    maxQueries: 4,
+    perQueryCount: 3,
+    perSourceCap: 2,
+    badgeStyle: 'bg-fuchsia-500/20 text-fuchsia-200 border border-fuchsia-500/40',
+    accentStyle: 'text-fuchsia-300',
+  },
+  {
+    id: 'hn',
+    label: 'HN',
+    name: 'Hacker News',
+    planHint: 'short keyword queries (1-3 terms) for Hacker News story search; popular stories rank first',
+    fallbackSuffixes: { keyword: '', query: '' },
+    maxQueries: 4,
+    perQueryCount: 3,
+    perSourceCap: 3,
+    badgeStyle: 'bg-amber-500/20 text-amber-200 border border-amber-500/40',
+    accentStyle: 'text-amber-300',
+  },
+  {
+    id: 'reddit',
+    label: 'Reddit',
+    name: 'Reddit',
+    planHint:
+      'Reddit searches; prefix a query with r/<subreddit> to search inside the most relevant community (e.g. "r/MachineLearning diffusion models")',
+    fallbackSuffixes: { keyword: '', query: '' },
+    maxQueries: 4,
+    perQueryCount: 3,
+    perSourceCap: 2,
+    badgeStyle: 'bg-orange-600/20 text-orange-200 border border-orange-600/40',
+    accentStyle: 'text-orange-400',
+  },
+  {
+    id: 'lobsters',
+    label: 'Lobsters',
+    name: 'Lobsters',
+    planHint:
+      'single Lobsters tags, lowercase (e.g. ai, ml, programming, compsci, rust, python, security, distributed, databases, plt, math)',
+    fallbackSuffixes: { keyword: '', query: '' },
+    maxQueries: 3,
+    perQueryCount: 3,
+    perSourceCap: 2,
+    badgeStyle: 'bg-red-500/20 text-red-200 border border-red-500/40',
+    accentStyle: 'text-red-300',
+  },
+  {
+    id: 'github',
+    label: 'GH',
+    name: 'GitHub',
+    planHint: 'short GitHub repository search terms (library names, tools, topics); avoid people names and prose',
+    fallbackSuffixes: { keyword: '', query: '' },
+    formatAffinity: 'code',
+    maxQueries: 4,
+    perQueryCount: 3,
+    perSourceCap: 3,
+    badgeStyle: 'bg-emerald-500/20 text-emerald-100 border border-emerald-500/40',
+    accentStyle: 'text-emerald-300',
+  },
+  {
+    id: 'hf',
+    label: 'HF',
+    name: 'Hugging Face',
+    planHint: 'short model, dataset or paper keywords for Hugging Face Hub search (e.g. "speech recognition", "code llm", "instruction tuning")',
+    fallbackSuffixes: { keyword: '', query: '' },
+    maxQueries: 3,
+    perQueryCount: 3,
+    perSourceCap: 2,
+    badgeStyle: 'bg-yellow-500/20 text-yellow-100 border border-yellow-500/40',
+    accentStyle: 'text-yellow-300',
+  },
+  {
+    id: 'video',
+    label: 'Video',
+    name: 'YouTube talks',
+    planHint: 'conference talk, lecture and paper walkthrough topics for YouTube search (2-5 terms, no channel names)',
+    fallbackSuffixes: { keyword: 'talk', query: 'conference talk' },
+    formatAffinity: 'video',
+    maxQueries: 2,
+    perQueryCount: 3,
+    perSourceCap: 1,
+    badgeStyle: 'bg-rose-500/20 text-rose-200 border border-rose-500/40',
+    accentStyle: 'text-rose-300',
+  },
+  {
+    id: 'podcast',
+    label: 'Pod',
+    name: 'podcasts',
+    planHint: 'podcast topics (2-4 terms) for the Apple Podcasts directory; recent episodes whose show notes match are kept',
+    fallbackSuffixes: { keyword: '', query: '' },
+    maxQueries: 2,
+    perQueryCount: 2,
+    perSourceCap: 1,
+    badgeStyle: 'bg-teal-500/20 text-teal-200 border border-teal-500/40',
+    accentStyle: 'text-teal-300',
+  },
+  {
+    id: 'news',
+    label: 'News',
+    name: 'news/blogs',
+    planHint: 'news, interviews and blog coverage for Google News',
+    fallbackSuffixes: { keyword: 'interview', query: 'blog post' },
+    maxQueries: 4,
+    perQueryCount: 3,
+    perSourceCap: 3,
+    badgeStyle: 'bg-sky-500/20 text-sky-100 border border-sky-500/40',
+    accentStyle: 'text-sky-300',
+  },
+  {
+    id: 'x',
+    label: 'X',
+    name: 'X.com',
+    planHint: 'commentary and insight threads on x.com',
+    planSlot: 'social',
+    fallbackSuffixes: { keyword: '', query: '' },
+    maxQueries: 4,
+    perQueryCount: 3,
+    perSourceCap: 3,
+    badgeStyle: 'bg-indigo-500/20 text-indigo-200 border border-indigo-500/40',
+    accentStyle: 'text-indigo-300',
+  },
+  {
+    id: 'bluesky',
+    label: 'Bsky',
+    name: 'Bluesky',
+    planHint: 'posts on Bluesky; shares the social queries',
+    planSlot: 'social',
+    fallbackSuffixes: { keyword: '', query: '' },
+    maxQueries: 4,
+    perQueryCount: 3,
+    perSourceCap: 2,
+    badgeStyle: 'bg-blue-500/20 text-blue-200 border border-blue-500/40',
+    accentStyle: 'text-blue-300',
+  },
+  {
+    id: 'mastodon',
+    label: 'Masto',
+    name: 'Mastodon',
+    planHint: 'hashtag timelines on Mastodon; shares the social queries',
+    planSlot: 'social',
+    fallbackSuffixes: { keyword: '', query: '' },
+    maxQueries: 4,
+    perQueryCount: 3,
+    perSourceCap: 2,
+    badgeStyle: 'bg-violet-500/20 text-violet-200 border border-violet-500/40',
+    accentStyle: 'text-violet-300',
+  },
+  {
+    id: 'rss',
+    label: 'RSS',
+    name: 'subscribed feeds',
+    planHint: 'topic keywords (1-3 terms) matched against recent posts from the blogs and newsletters the user subscribes to',
+    fallbackSuffixes: { keyword: '', query: '' },
+    maxQueries: 4,
+    perQueryCount: 3,
+    perSourceCap: 3,
+    badgeStyle: 'bg-orange-500/20 text-orange-200 border border-orange-500/40',
+    accentStyle: 'text-orange-300',
+  },
+];
+
+const registry = new Map<FeedSource, SourceDescriptor>(descriptors.map(descriptor => [descriptor.id, descriptor]));
+
+// Slots planned once and fetched by every enabled provider that points its `planSlot` at them.
+const sharedSlots: PlanSlotDescriptor[] = [
+  {
+    id: 'social',
+    name: 'social posts',
+    planHint:
+      'short topic phrases (1-3 terms) or a single #hashtag for public posts on social networks; the same queries run on every enabled provider (X, Bluesky, Mastodon)',
+    fallbackSuffixes: { keyword: '', query: '' },
+    maxQueries: 4,
+  },
+];
+
+const fallbackDescriptor: Omit<SourceDescriptor, 'id' | 'label' | 'name'> = {
+  planHint: '',
+  fallbackSuffixes: { keyword: '', query: '' },
+  maxQueries: 0,
+  perQueryCount: 0,
+  perSourceCap: 1,
+  badgeStyle: 'bg-slate-500/20 text-slate-200 border border-slate-500/40',
+  accentStyle: 'text-slate-300',
+};
+
+const FORMAT_BOOST = 2;
+
+function isBoosted(slot: PlanSlotDescriptor, preferences?: ProfileCardData['preferences']) {
+  return Boolean(slot.formatAffinity && preferences?.format === slot.formatAffinity);
+}
+
+/** How many queries the planner writes for a plan slot. */
+export function slotQueryLimit(slot: PlanSlotDescriptor, preferences?: ProfileCardData['preferences']) {
+  return slot.maxQueries + (isBoosted(slot, preferences) ? FORMAT_BOOST : 0);
+}
+
+export function sourceBudget(descriptor: SourceDescriptor, preferences?: ProfileCardData['preferences']) {
+  const boosted = isBoosted(descriptor, preferences);
+  return {
+    maxQueries: slotQueryLimit(descriptor, preferences),
+    perQueryCount: descriptor.perQueryCount,
+    perSourceCap: descriptor.perSourceCap + (boosted ? FORMAT_BOOST : 0),
+  };
+}
+
+export function listSourceDescriptors(): SourceDescriptor[] {
+  return descriptors;
+}
+
+export function getSharedSlot(id: QuerySlot): PlanSlotDescriptor | undefined {
+  return sharedSlots.find(slot => slot.id === id);
+}
+
+export function getSourceDescriptor(id: FeedSource): SourceDescriptor {
+  return registry.get(id) ?? { ...fallbackDescriptor, id, label: id.toUpperCase(), name: id };
+}
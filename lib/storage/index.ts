@@ -0,0 +1,13 @@
+import { env } from '../env';
+import { globalSingleton } from '../singleton';
+import { createMemoryStore } from './memory';
+import { createSqliteStore } from './sqlite';
+import type { FeedStore } from './types';
+
+export type { DiscoverySession, FeedStore, RunUpdate, StoredFeedItem, StoredSubscription } from './types';
+
+export function getStore(): FeedStore {
+  return globalSingleton('__neuralFeedStore', () =>
+    env.storageDriver === 'memory' ? createMemoryStore() : createSqliteStore(env.databasePath),
+  );
+}
@@ -0,0 +1,158 @@
+import { randomUUID } from 'crypto';
+import type { CandidateProfile, CommunityPin, FeedRun, ItemFeedback, ProfileCardData, RunStatus, SavedProfile } from '../../types';
+import { DISCOVERY_SESSION_TTL_MS, savedProfileId } from './types';
+import type { DiscoverySession, FeedStore, RunUpdate, StoredFeedItem, StoredSubscription } from './types';
+
+/** Process-local store for development and tests; nothing survives a restart. */
+export function createMemoryStore(): FeedStore {
+  const runs = new Map<string, FeedRun>();
+  const profiles = new Map<string, SavedProfile>();
+  const sessions = new Map<string, DiscoverySession>();
+  // Keyed by profile id, then URL.
+  const feedback = new Map<string, Map<string, ItemFeedback>>();
+  const subscriptions = new Map<string, StoredSubscription>();
+  const pins = new Map<string, CommunityPin>();
+
+  const newestFirst = () =>
+    Array.from(runs.values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return {
+    async createRun(name: string, candidate: CandidateProfile) {
+      const now = new Date().toISOString();
+      const run: FeedRun = {
+        id: randomUUID(),
+        name,
+        candidate,
+        profileId: savedProfileId(name, candidate),
+        status: 'running',
+        createdAt: now,
+        updatedAt: now,
+      };
+      runs.set(run.id, run);
+      return run;
+    },
+
+    async updateRun(id: string, update: RunUpdate) {
+      const run = runs.get(id);
+      if (!run) return null;
+      const next = { ...run, ...update, updatedAt: new Date().toISOString() };
+      runs.set(id, next);
+      return next;
+    },
+
+    async getRun(id: string) {
+      return runs.get(id) ?? null;
+    },
+
+    async listRuns(limit = 20) {
+      return newestFirst().slice(0, limit);
+    },
+
+    async listProfileRuns(profileId: string, limit = 20, status?: RunStatus) {
+      return newestFirst()
+        .filter(run => run.profileId === profileId && (!status || run.status === status))
+        .slice(0, limit);
+    },
+
+    async getFeedItem(itemId: string, runId?: string): Promise<StoredFeedItem | null> {
+      for (const run of newestFirst().filter(entry => !runId || entry.id === runId)) {
+        const item = [...(run.feed ?? []), ...(run.exploration ?? [])].find(entry => entry.id === itemId);
+        if (item && run.profile) {
+          return { item, runId: run.id, profileId: run.profileId, name: run.name, profile: run.profile };
+        }
+      }
+      return null;
+    },
+
+    async saveProfile(name: string, candidate: CandidateProfile, profile: ProfileCardData, runId: string) {
+      const id = savedProfileId(name, candidate);
+      const now = new Date().toISOString();
+      const saved: SavedProfile = {
+        id,
+        name,
+        candidate,
+        profile,
+        savedAt: profiles.get(id)?.savedAt ?? now,
+        updatedAt: now,
+        lastRunId: runId,
+      };
+      profiles.set(id, saved);
+      return saved;
+    },
+
+    async getProfile(id: string) {
+      return profiles.get(id) ?? null;
+    },
+
+    async listProfiles() {
+      return Array.from(profiles.values()).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+
+    async deleteProfile(id: string) {
+      feedback.delete(id);
+      return profiles.delete(id);
+    },
+
+    async createDiscoverySession(name: string, candidates: CandidateProfile[]) {
+      const now = Date.now();
+      for (const [token, session] of sessions) {
+        if (new Date(session.expiresAt).getTime() < now) sessions.delete(token);
+      }
+      const session: DiscoverySession = {
+        token: randomUUID(),
+        name,
+        candidates,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + DISCOVERY_SESSION_TTL_MS).toISOString(),
+      };
+      sessions.set(session.token, session);
+      return session;
+    },
+
+    async getDiscoverySession(token: string) {
+      const session = sessions.get(token);
+      return session && new Date(session.expiresAt).getTime() >= Date.now() ? session : null;
+    },
+
+    async recordFeedback(entry: ItemFeedback) {
+      const forProfile = feedback.get(entry.profileId) ?? new Map<string, ItemFeedback>();
+      forProfile.set(entry.url, entry);
+      feedback.set(entry.profileId, forProfile);
+      return entry;
+    },
+
+    async listFeedback(profileId: string) {
+      return Array.from(feedback.get(profileId)?.values() ?? []).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+
+    async listSubscriptions() {
+      return Array.from(subscriptions.values()).sort((a, b) =>
+        a.subscription.addedAt.localeCompare(b.subscription.addedAt),
+      );
+    },
+
+    async saveSubscription(entry: StoredSubscription) {
+      subscriptions.set(entry.subscription.id, entry);
+      return entry;
+    },
+
+    async deleteSubscription(id: string) {
+      return subscriptions.delete(id);
+    },
+
+    async listCommunityPins() {
+      return Array.from(pins.values()).sort((a, b) => a.addedAt.localeCompare(b.addedAt));
+    },
+
+    async saveCommunityPin(pin: CommunityPin) {
+      const existing = pins.get(pin.id);
+      if (existing) return existing;
+      pins.set(pin.id, pin);
+      return pin;
+    },
+
+    async deleteCommunityPin(id: string) {
+      return pins.delete(id);
+    },
+  };
+}
@@ -0,0 +1,510 @@
+import Database from 'better-sqlite3';
+import { randomUUID } from 'crypto';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type { CandidateProfile, CommunityPin, FeedItem, FeedRun, FeedSubscription, ItemFeedback, ProfileCardData, RunStatus, SavedProfile } from '../../types';
+import type { ParsedFeedEntry } from '../feed-parser';
+import { DISCOVERY_SESSION_TTL_MS, savedProfileId } from './types';
+import type { DiscoverySession, FeedStore, RunUpdate, StoredFeedItem, StoredSubscription } from './types';
+
+// Each entry upgrades the schema by one `user_version`; append, never edit.
+const MIGRATIONS: Array<string | ((db: Database.Database) => void)> = [
+  `
+  CREATE TABLE runs (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    candidate TEXT NOT NULL,
+    snippets TEXT,
+    profile TEXT,
+    plan TEXT,
+    plan_mode TEXT,
+    pool TEXT,
+    feed TEXT,
+    exploration TEXT,
+    error TEXT
+  );
+  CREATE INDEX runs_created_at ON runs (created_at);
+  CREATE TABLE feed_items (
+    run_id TEXT NOT NULL REFERENCES runs (id) ON DELETE CASCADE,
+    item_id TEXT NOT NULL,
+    position INTEGER NOT NULL,
+    item TEXT NOT NULL,
+    PRIMARY KEY (run_id, item_id)
+  );
+  CREATE INDEX feed_items_item_id ON feed_items (item_id);
+  `,
+  `
+  CREATE TABLE profiles (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    candidate TEXT NOT NULL,
+    profile TEXT NOT NULL,
+    saved_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    last_run_id TEXT
+  );
+  `,
+  `
+  CREATE TABLE discovery_sessions (
+    token TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    candidates TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  );
+  CREATE INDEX discovery_sessions_expires_at ON discovery_sessions (expires_at);
+  `,
+  db => {
+    db.exec('ALTER TABLE runs ADD COLUMN profile_id TEXT');
+    db.exec('CREATE INDEX runs_profile_id ON runs (profile_id, created_at)');
+    // The id is a hash computed in JS, so existing runs are backfilled here rather than in SQL.
+    const update = db.prepare('UPDATE runs SET profile_id = ? WHERE id = ?');
+    const rows = db.prepare('SELECT id, name, candidate FROM runs').all() as Array<{ id: string; name: string; candidate: string }>;
+    for (const row of rows) {
+      update.run(savedProfileId(row.name, JSON.parse(row.candidate) as CandidateProfile), row.id);
+    }
+  },
+  `
+  CREATE TABLE feedback (
+    profile_id TEXT NOT NULL REFERENCES profiles (id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    item_id TEXT NOT NULL,
+    title TEXT NOT NULL,
+    summary TEXT NOT NULL,
+    source TEXT NOT NULL,
+    action TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (profile_id, url)
+  );
+  `,
+  'ALTER TABLE runs ADD COLUMN prompt_versions TEXT',
+  `
+  CREATE TABLE subscriptions (
+    id TEXT PRIMARY KEY,
+    subscription TEXT NOT NULL,
+    etag TEXT,
+    last_modified TEXT,
+    entries TEXT NOT NULL,
+    added_at TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE community_pins (
+    id TEXT PRIMARY KEY,
+    platform TEXT NOT NULL,
+    name TEXT NOT NULL,
+    added_at TEXT NOT NULL
+  );
+  `,
+];
+
+interface RunRow {
+  id: string;
+  name: string;
+  profile_id: string;
+  status: FeedRun['status'];
+  created_at: string;
+  updated_at: string;
+  candidate: string;
+  snippets: string | null;
+  profile: string | null;
+  plan: string | null;
+  plan_mode: FeedRun['planMode'] | null;
+  pool: string | null;
+  feed: string | null;
+  exploration: string | null;
+  prompt_versions: string | null;
+  error: string | null;
+}
+
+interface ProfileRow {
+  id: string;
+  name: string;
+  candidate: string;
+  profile: string;
+  saved_at: string;
+  updated_at: string;
+  last_run_id: string | null;
+}
+
+interface FeedbackRow {
+  profile_id: string;
+  url: string;
+  item_id: string;
+  title: string;
+  summary: string;
+  source: ItemFeedback['source'];
+  action: ItemFeedback['action'];
+  created_at: string;
+}
+
+interface SubscriptionRow {
+  id: string;
+  subscription: string;
+  etag: string | null;
+  last_modified: string | null;
+  entries: string;
+  added_at: string;
+}
+
+interface CommunityPinRow {
+  id: string;
+  platform: CommunityPin['platform'];
+  name: string;
+  added_at: string;
+}
+
+interface SessionRow {
+  token: string;
+  name: string;
+  candidates: string;
+  created_at: string;
+  expires_at: string;
+}
+
+// Run fields stored as JSON text, mapped to their column.
+const JSON_COLUMNS = {
+  snippets: 'snippets',
+  profile: 'profile',
+  plan: 'plan',
+  pool: 'pool',
+  feed: 'feed',
+  exploration: 'exploration',
+  promptVersions: 'prompt_versions',
+} as const;
+
+function parse<T>(value: string | null): T | undefined {
+  return value === null ? undefined : (JSON.parse(value) as T);
+}
+
+function toRun(row: RunRow): FeedRun {
+  return {
+    id: row.id,
+    name: row.name,
+    profileId: row.profile_id,
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    candidate: JSON.parse(row.candidate) as CandidateProfile,
+    snippets: parse(row.snippets),
+    profile: parse(row.profile),
+    plan: parse(row.plan),
+    planMode: row.plan_mode ?? undefined,
+    pool: parse(row.pool),
+    feed: parse(row.feed),
+    exploration: parse(row.exploration),
+    promptVersions: parse(row.prompt_versions),
+    error: row.error ?? undefined,
+  };
+}
+
+function toSavedProfile(row: ProfileRow): SavedProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    candidate: JSON.parse(row.candidate) as CandidateProfile,
+    profile: JSON.parse(row.profile) as ProfileCardData,
+    savedAt: row.saved_at,
+    updatedAt: row.updated_at,
+    lastRunId: row.last_run_id ?? undefined,
+  };
+}
+
+function toFeedback(row: FeedbackRow): ItemFeedback {
+  return {
+    profileId: row.profile_id,
+    itemId: row.item_id,
+    url: row.url,
+    title: row.title,
+    summary: row.summary,
+    source: row.source,
+    action: row.action,
+    createdAt: row.created_at,
+  };
+}
+
+function toStoredSubscription(row: SubscriptionRow): StoredSubscription {
+  return {
+    subscription: JSON.parse(row.subscription) as FeedSubscription,
+    etag: row.etag ?? undefined,
+    lastModified: row.last_modified ?? undefined,
+    entries: JSON.parse(row.entries) as ParsedFeedEntry[],
+  };
+}
+
+function toCommunityPin(row: CommunityPinRow): CommunityPin {
+  return { id: row.id, platform: row.platform, name: row.name, addedAt: row.added_at };
+}
+
+function migrate(db: Database.Database) {
+  const version = db.pragma('user_version', { simple: true }) as number;
+  for (let index = version; index < MIGRATIONS.length; index += 1) {
+    db.transaction(() => {
+      const migration = MIGRATIONS[index];
+      if (typeof migration === 'string') {
+        db.exec(migration);
+      } else {
+        migration(db);
+      }
+      db.pragma(`user_version = ${index + 1}`);
+    })();
+  }
+}
+
+export function createSqliteStore(path: string): FeedStore {
+  if (path !== ':memory:') {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+
+  const selectRun = db.prepare<[string], RunRow>('SELECT * FROM runs WHERE id = ?');
+  const selectRuns = db.prepare<[number], RunRow>('SELECT * FROM runs ORDER BY created_at DESC LIMIT ?');
+  const insertRun = db.prepare(
+    `INSERT INTO runs (id, name, profile_id, status, created_at, updated_at, candidate)
+     VALUES (@id, @name, @profileId, @status, @createdAt, @updatedAt, @candidate)`,
+  );
+  const selectProfileRuns = db.prepare<{ profileId: string; status: RunStatus | null; limit: number }, RunRow>(
+    `SELECT * FROM runs
+     WHERE profile_id = @profileId AND (@status IS NULL OR status = @status)
+     ORDER BY created_at DESC LIMIT @limit`,
+  );
+  const deleteItems = db.prepare('DELETE FROM feed_items WHERE run_id = ?');
+  const insertItem = db.prepare('INSERT OR REPLACE INTO feed_items (run_id, item_id, position, item) VALUES (?, ?, ?, ?)');
+  const selectItem = db.prepare<
+    { itemId: string; runId: string | null },
+    { item: string; run_id: string; profile_id: string; name: string; profile: string | null }
+  >(
+    `SELECT feed_items.item, feed_items.run_id, runs.profile_id, runs.name, runs.profile
+       FROM feed_items JOIN runs ON runs.id = feed_items.run_id
+      WHERE feed_items.item_id = @itemId AND (@runId IS NULL OR feed_items.run_id = @runId) AND runs.profile IS NOT NULL
+      ORDER BY runs.created_at DESC
+      LIMIT 1`,
+  );
+
+  const selectProfile = db.prepare<[string], ProfileRow>('SELECT * FROM profiles WHERE id = ?');
+  const selectProfiles = db.prepare<[], ProfileRow>('SELECT * FROM profiles ORDER BY updated_at DESC');
+  const upsertProfile = db.prepare(
+    `INSERT INTO profiles (id, name, candidate, profile, saved_at, updated_at, last_run_id)
+     VALUES (@id, @name, @candidate, @profile, @now, @now, @runId)
+     ON CONFLICT (id) DO UPDATE SET
+       name = excluded.name,
+       candidate = excluded.candidate,
+       profile = excluded.profile,
+       updated_at = excluded.updated_at,
+       last_run_id = excluded.last_run_id`,
+  );
+  const deleteProfile = db.prepare('DELETE FROM profiles WHERE id = ?');
+  const insertSession = db.prepare(
+    'INSERT INTO discovery_sessions (token, name, candidates, created_at, expires_at) VALUES (@token, @name, @candidates, @createdAt, @expiresAt)',
+  );
+  const selectSession = db.prepare<[string, string], SessionRow>(
+    'SELECT * FROM discovery_sessions WHERE token = ? AND expires_at >= ?',
+  );
+  const purgeSessions = db.prepare('DELETE FROM discovery_sessions WHERE expires_at < ?');
+  const upsertFeedback = db.prepare(
+    `INSERT OR REPLACE INTO feedback (profile_id, url, item_id, title, summary, source, action, created_at)
+     VALUES (@profileId, @url, @itemId, @title, @summary, @source, @action, @createdAt)`,
+  );
+  const selectFeedback = db.prepare<[string], FeedbackRow>(
+    'SELECT * FROM feedback WHERE profile_id = ? ORDER BY created_at DESC',
+  );
+  const selectSubscriptions = db.prepare<[], SubscriptionRow>('SELECT * FROM subscriptions ORDER BY added_at');
+  const upsertSubscription = db.prepare(
+    `INSERT OR REPLACE INTO subscriptions (id, subscription, etag, last_modified, entries, added_at)
+     VALUES (@id, @subscription, @etag, @lastModified, @entries, @addedAt)`,
+  );
+  const deleteSubscription = db.prepare('DELETE FROM subscriptions WHERE id = ?');
+  const selectPin = db.prepare<[string], CommunityPinRow>('SELECT * FROM community_pins WHERE id = ?');
+  const selectPins = db.prepare<[], CommunityPinRow>('SELECT * FROM community_pins ORDER BY added_at');
+  const insertPin = db.prepare(
+    `INSERT INTO community_pins (id, platform, name, added_at) VALUES (@id, @platform, @name, @addedAt)
+     ON CONFLICT (id) DO NOTHING`,
+  );
+  const deletePin = db.prepare('DELETE FROM community_pins WHERE id = ?');
+
+  // Feed and exploration picks are also indexed by item id so Deepen can look them up directly.
+  const replaceItems = (runId: string, items: FeedItem[]) => {
+    deleteItems.run(runId);
+    items.forEach((item, position) => insertItem.run(runId, item.id, position, JSON.stringify(item)));
+  };
+
+  const applyUpdate = db.transaction((id: string, update: RunUpdate) => {
+    const assignments: string[] = ['updated_at = @updatedAt'];
+    const values: Record<string, unknown> = { id, updatedAt: new Date().toISOString() };
+    for (const [field, column] of Object.entries(JSON_COLUMNS) as Array<[keyof typeof JSON_COLUMNS, string]>) {
+      if (update[field] !== undefined) {
+        assignments.push(`${column} = @${column}`);
+        values[column] = JSON.stringify(update[field]);
+      }
+    }
+    if (update.status !== undefined) {
+      assignments.push('status = @status');
+      values.status = update.status;
+    }
+    if (update.planMode !== undefined) {
+      assignments.push('plan_mode = @planMode');
+      values.planMode = update.planMode;
+    }
+    if (update.error !== undefined) {
+      assignments.push('error = @error');
+      values.error = update.error;
+    }
+    const result = db.prepare(`UPDATE runs SET ${assignments.join(', ')} WHERE id = @id`).run(values);
+    if (result.changes === 0) return false;
+
+    if (update.feed !== undefined || update.exploration !== undefined) {
+      const row = selectRun.get(id);
+      const run = row ? toRun(row) : null;
+      replaceItems(id, [...(run?.feed ?? []), ...(run?.exploration ?? [])]);
+    }
+    return true;
+  });
+
+  return {
+    async createRun(name: string, candidate: CandidateProfile) {
+      const now = new Date().toISOString();
+      const run: FeedRun = {
+        id: randomUUID(),
+        name,
+        candidate,
+        profileId: savedProfileId(name, candidate),
+        status: 'running',
+        createdAt: now,
+        updatedAt: now,
+      };
+      insertRun.run({ ...run, candidate: JSON.stringify(candidate) });
+      return run;
+    },
+
+    async updateRun(id: string, update: RunUpdate) {
+      if (!applyUpdate(id, update)) return null;
+      const row = selectRun.get(id);
+      return row ? toRun(row) : null;
+    },
+
+    async getRun(id: string) {
+      const row = selectRun.get(id);
+      return row ? toRun(row) : null;
+    },
+
+    async listRuns(limit = 20) {
+      return selectRuns.all(limit).map(toRun);
+    },
+
+    async listProfileRuns(profileId: string, limit = 20, status?: RunStatus) {
+      return selectProfileRuns.all({ profileId, status: status ?? null, limit }).map(toRun);
+    },
+
+    async getFeedItem(itemId: string, runId?: string): Promise<StoredFeedItem | null> {
+      const row = selectItem.get({ itemId, runId: runId ?? null });
+      if (!row?.profile) return null;
+      return {
+        item: JSON.parse(row.item) as FeedItem,
+        runId: row.run_id,
+        profileId: row.profile_id,
+        name: row.name,
+        profile: JSON.parse(row.profile) as ProfileCardData,
+      };
+    },
+
+    async saveProfile(name: string, candidate: CandidateProfile, profile: ProfileCardData, runId: string) {
+      const id = savedProfileId(name, candidate);
+      upsertProfile.run({
+        id,
+        name,
+        candidate: JSON.stringify(candidate),
+        profile: JSON.stringify(profile),
+        now: new Date().toISOString(),
+        runId,
+      });
+      return toSavedProfile(selectProfile.get(id) as ProfileRow);
+    },
+
+    async getProfile(id: string) {
+      const row = selectProfile.get(id);
+      return row ? toSavedProfile(row) : null;
+    },
+
+    async listProfiles() {
+      return selectProfiles.all().map(toSavedProfile);
+    },
+
+    async deleteProfile(id: string) {
+      return deleteProfile.run(id).changes > 0;
+    },
+
+    async createDiscoverySession(name: string, candidates: CandidateProfile[]) {
+      const now = Date.now();
+      purgeSessions.run(new Date(now).toISOString());
+      const session: DiscoverySession = {
+        token: randomUUID(),
+        name,
+        candidates,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + DISCOVERY_SESSION_TTL_MS).toISOString(),
+      };
+      insertSession.run({ ...session, candidates: JSON.stringify(candidates) });
+      return session;
+    },
+
+    async getDiscoverySession(token: string) {
+      const row = selectSession.get(token, new Date().toISOString());
+      if (!row) return null;
+      return {
+        token: row.token,
+        name: row.name,
+        candidates: JSON.parse(row.candidates) as CandidateProfile[],
+        createdAt: row.created_at,
+        expiresAt: row.expires_at,
+      };
+    },
+
+    async recordFeedback(feedback: ItemFeedback) {
+      upsertFeedback.run(feedback);
+      return feedback;
+    },
+
+    async listFeedback(profileId: string) {
+      return selectFeedback.all(profileId).map(toFeedback);
+    },
+
+    async listSubscriptions() {
+      return selectSubscriptions.all().map(toStoredSubscription);
+    },
+
+    async saveSubscription(entry: StoredSubscription) {
+      upsertSubscription.run({
+        id: entry.subscription.id,
+        subscription: JSON.stringify(entry.subscription),
+        etag: entry.etag ?? null,
+        lastModified: entry.lastModified ?? null,
+        entries: JSON.stringify(entry.entries),
+        addedAt: entry.subscription.addedAt,
+      });
+      return entry;
+    },
+
+    async deleteSubscription(id: string) {
+      return deleteSubscription.run(id).changes > 0;
+    },
+
+    async listCommunityPins() {
+      return selectPins.all().map(toCommunityPin);
+    },
+
+    async saveCommunityPin(pin: CommunityPin) {
+      insertPin.run(pin);
+      return toCommunityPin(selectPin.get(pin.id) as CommunityPinRow);
+    },
+
+    async deleteCommunityPin(id: string) {
+      return deletePin.run(id).changes > 0;
+    },
+  };
+}
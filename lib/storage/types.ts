@@ -0,0 +1,81 @@
+import type { CandidateProfile, CommunityPin, FeedItem, FeedRun, FeedSubscription, ItemFeedback, ProfileCardData, RunStatus, SavedProfile } from '../../types';
+import type { ParsedFeedEntry } from '../feed-parser';
+import { hashId } from '../ids';
+
+export type RunUpdate = Partial<Omit<FeedRun, 'id' | 'name' | 'candidate' | 'profileId' | 'createdAt' | 'updatedAt'>>;
+
+/** Candidates shown for one discovery, so the run phase confirms from the same set the user saw. */
+export interface DiscoverySession {
+  token: string;
+  name: string;
+  candidates: CandidateProfile[];
+  createdAt: string;
+  expiresAt: string;
+}
+
+export const DISCOVERY_SESSION_TTL_MS = 60 * 60 * 1000;
+
+export interface StoredFeedItem {
+  item: FeedItem;
+  runId: string;
+  profileId: string;
+  name: string;
+  profile: ProfileCardData;
+}
+
+/** A feed subscription with the validators and entries of its last successful fetch. */
+export interface StoredSubscription {
+  subscription: FeedSubscription;
+  etag?: string;
+  lastModified?: string;
+  entries: ParsedFeedEntry[];
+}
+
+/**
+ * Persistence for feed runs. Methods are async so drivers backed by a network
+ * database fit the same interface as the embedded one.
+ */
+export interface FeedStore {
+  createRun(name: string, candidate: CandidateProfile): Promise<FeedRun>;
+  /** Merges the given stage outputs into the run; returns null for unknown ids. */
+  updateRun(id: string, update: RunUpdate): Promise<FeedRun | null>;
+  getRun(id: string): Promise<FeedRun | null>;
+  /** Most recent first. */
+  listRuns(limit?: number): Promise<FeedRun[]>;
+  /** Runs for one saved-profile id, most recent first; `status` filters before the limit applies. */
+  listProfileRuns(profileId: string, limit?: number, status?: RunStatus): Promise<FeedRun[]>;
+  /**
+   * The item from run `runId`, or without one from the most recent run whose
+   * feed or exploration picks contain it. Item ids are not unique per profile,
+   * so anything written back to a profile should pass the run.
+   */
+  getFeedItem(itemId: string, runId?: string): Promise<StoredFeedItem | null>;
+  /** Inserts or updates the saved profile for this name and candidate. */
+  saveProfile(name: string, candidate: CandidateProfile, profile: ProfileCardData, runId: string): Promise<SavedProfile>;
+  getProfile(id: string): Promise<SavedProfile | null>;
+  /** Most recently updated first. */
+  listProfiles(): Promise<SavedProfile[]>;
+  deleteProfile(id: string): Promise<boolean>;
+  createDiscoverySession(name: string, candidates: CandidateProfile[]): Promise<DiscoverySession>;
+  /** Null when the token is unknown or the session has expired. */
+  getDiscoverySession(token: string): Promise<DiscoverySession | null>;
+  /** Replaces any earlier feedback on the same URL for the profile. */
+  recordFeedback(feedback: ItemFeedback): Promise<ItemFeedback>;
+  /** Most recent first. */
+  listFeedback(profileId: string): Promise<ItemFeedback[]>;
+  /** Oldest first. */
+  listSubscriptions(): Promise<StoredSubscription[]>;
+  /** Inserts the subscription or replaces its fetch state. */
+  saveSubscription(subscription: StoredSubscription): Promise<StoredSubscription>;
+  deleteSubscription(id: string): Promise<boolean>;
+  /** Oldest first. */
+  listCommunityPins(): Promise<CommunityPin[]>;
+  /** Keeps the existing pin when one with the same id is already stored. */
+  saveCommunityPin(pin: CommunityPin): Promise<CommunityPin>;
+  deleteCommunityPin(id: string): Promise<boolean>;
+}
+
+/** One saved profile per name and confirmed identity, so re-running the same person updates it in place. */
+export function savedProfileId(name: string, candidate: CandidateProfile) {
+  return hashId('profile', `${name.trim().toLowerCase()}|${candidate.profileUrl}`);
+}
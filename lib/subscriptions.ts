@@ -0,0 +1,186 @@
+import type { FeedSubscription } from '../types';
+import { parseFeed } from './feed-parser';
+import type { ParsedFeed, ParsedFeedEntry } from './feed-parser';
+import { USER_AGENT, fetchPublic } from './http';
+import { hashId } from './ids';
+import { globalSingleton } from './singleton';
+import { getStore } from './storage';
+import type { StoredSubscription } from './storage';
+
+const SUBSCRIPTION_REFRESH_MS = 15 * 60 * 1000;
+const MAX_ENTRIES_PER_FEED = 50;
+
+interface SubscriptionState extends StoredSubscription {
+  refreshing?: Promise<void>;
+}
+
+export interface SubscriptionEntries {
+  subscription: FeedSubscription;
+  entries: ParsedFeedEntry[];
+}
+
+const shared = globalSingleton('__neuralFeedSubscriptions', () => ({
+  subscriptions: new Map<string, SubscriptionState>(),
+  loaded: undefined as Promise<void> | undefined,
+}));
+const { subscriptions } = shared;
+
+/**
+ * Reads the stored subscriptions into memory once per process; every change
+ * after that is written through to the store. A failed read is retried on the next call.
+ */
+export function loadSubscriptions(): Promise<void> {
+  shared.loaded ??= getStore()
+    .listSubscriptions()
+    .then(stored => {
+      for (const entry of stored) {
+        if (!subscriptions.has(entry.subscription.id)) subscriptions.set(entry.subscription.id, { ...entry });
+      }
+    })
+    .catch(error => {
+      shared.loaded = undefined;
+      throw error;
+    });
+  return shared.loaded;
+}
+
+/** Skips states removed while they were being fetched, so a refresh cannot bring them back. */
+async function persist(state: SubscriptionState) {
+  if (subscriptions.get(state.subscription.id) !== state) return;
+  const { subscription, etag, lastModified, entries } = state;
+  await getStore().saveSubscription({ subscription, etag, lastModified, entries });
+}
+
+function normalizeFeedUrl(url: string) {
+  const parsed = new URL(url.trim());
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Feed URL must use http or https.');
+  }
+  parsed.hash = '';
+  return parsed.toString();
+}
+
+async function requestFeed(url: string, state?: SubscriptionState) {
+  const headers: Record<string, string> = {
+    'User-Agent': USER_AGENT,
+    Accept: 'application/rss+xml, application/atom+xml, application/feed+json, application/json, text/xml;q=0.9, */*;q=0.8',
+  };
+  if (state?.etag) headers['If-None-Match'] = state.etag;
+  if (state?.lastModified) headers['If-Modified-Since'] = state.lastModified;
+
+  // Feed URLs come from the reader, so redirects and re-resolved hosts are checked on every fetch.
+  const res = await fetchPublic(url, { headers });
+  if (res.status === 304) {
+    return { notModified: true as const };
+  }
+  if (!res.ok) {
+    throw new Error(`HTTP ${res.status} for ${url}`);
+  }
+  const feed: ParsedFeed = parseFeed(await res.text());
+  return {
+    notModified: false as const,
+    feed,
+    etag: res.headers.get('etag') ?? undefined,
+    lastModified: res.headers.get('last-modified') ?? undefined,
+  };
+}
+
+async function refreshSubscription(state: SubscriptionState) {
+  const fetchedAt = new Date().toISOString();
+  try {
+    const result = await requestFeed(state.subscription.url, state);
+    if (result.notModified) {
+      state.subscription = { ...state.subscription, lastFetchedAt: fetchedAt, lastStatus: 'not-modified', lastError: undefined };
+      return;
+    }
+    state.entries = result.feed.entries.slice(0, MAX_ENTRIES_PER_FEED);
+    state.etag = result.etag;
+    state.lastModified = result.lastModified;
+    state.subscription = {
+      ...state.subscription,
+      title: state.subscription.title || result.feed.title,
+      lastFetchedAt: fetchedAt,
+      lastStatus: 'ok',
+      lastError: undefined,
+      entryCount: state.entries.length,
+    };
+  } catch (error) {
+    // Keep the previous entries so one flaky feed does not empty the source.
+    state.subscription = {
+      ...state.subscription,
+      lastFetchedAt: fetchedAt,
+      lastStatus: 'error',
+      lastError: error instanceof Error ? error.message : 'Feed fetch failed.',
+    };
+  }
+}
+
+function isStale(state: SubscriptionState) {
+  const last = state.subscription.lastFetchedAt;
+  return !last || Date.now() - new Date(last).getTime() > SUBSCRIPTION_REFRESH_MS;
+}
+
+export async function listSubscriptions(): Promise<FeedSubscription[]> {
+  await loadSubscriptions();
+  return Array.from(subscriptions.values()).map(state => state.subscription);
+}
+
+/** Reads what `loadSubscriptions` loaded, for callers that cannot wait on the store. */
+export function hasSubscriptions() {
+  return subscriptions.size > 0;
+}
+
+/** Fetches and parses the feed once before saving it, so bad URLs fail at registration time. */
+export async function addSubscription(url: string, title?: string): Promise<FeedSubscription> {
+  const normalized = normalizeFeedUrl(url);
+  await loadSubscriptions();
+  const id = hashId('feed', normalized);
+  const existing = subscriptions.get(id);
+  if (existing) {
+    return existing.subscription;
+  }
+
+  const result = await requestFeed(normalized);
+  if (result.notModified) {
+    throw new Error(`Unexpected 304 for ${normalized}`);
+  }
+  const entries = result.feed.entries.slice(0, MAX_ENTRIES_PER_FEED);
+  const now = new Date().toISOString();
+  const subscription: FeedSubscription = {
+    id,
+    url: normalized,
+    title: title?.trim() || result.feed.title || new URL(normalized).hostname,
+    addedAt: now,
+    lastFetchedAt: now,
+    lastStatus: 'ok',
+    entryCount: entries.length,
+  };
+  const state: SubscriptionState = { subscription, etag: result.etag, lastModified: result.lastModified, entries };
+  await getStore().saveSubscription({ ...state });
+  subscriptions.set(id, state);
+  return subscription;
+}
+
+export async function removeSubscription(id: string) {
+  await loadSubscriptions();
+  const removed = await getStore().deleteSubscription(id);
+  return subscriptions.delete(id) || removed;
+}
+
+/** Returns every subscription's entries, re-fetching feeds older than the refresh interval. */
+export async function loadSubscriptionEntries(): Promise<SubscriptionEntries[]> {
+  await loadSubscriptions();
+  const states = Array.from(subscriptions.values());
+  await Promise.all(
+    states.map(state => {
+      if (!isStale(state)) return undefined;
+      state.refreshing ??= refreshSubscription(state)
+        .then(() => persist(state))
+        .finally(() => {
+          state.refreshing = undefined;
+        });
+      return state.refreshing;
+    }),
+  );
+  return states.map(state => ({ subscription: state.subscription, entries: state.entries }));
+}
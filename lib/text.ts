@@ -0,0 +1,94 @@
+export function sanitizeWhitespace(value: string) {
+  return value.replace(/\s+/g, ' ').trim();
+}
+
+/** The character for a numeric entity, or the entity itself when it is not a valid code point. */
+function codePoint(entity: string, code: number) {
+  return Number.isInteger(code) && code >= 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+}
+
+export function decodeEntities(value: string) {
+  return value
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (entity, code: string) => codePoint(entity, Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (entity, code: string) => codePoint(entity, parseInt(code, 16)));
+}
+
+export function stripHtml(html: string) {
+  const withoutScripts = html
+    .replace(/<script[\s\S]*?<\/script>/gi, ' ')
+    .replace(/<style[\s\S]*?<\/style>/gi, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ');
+  const withoutTags = withoutScripts.replace(/<\/?[^>]+>/g, ' ');
+  return sanitizeWhitespace(decodeEntities(withoutTags));
+}
+
+export function extractTagContent(xml: string, tag: string) {
+  const regex = new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`, 'i');
+  const match = regex.exec(xml);
+  if (!match) return '';
+  return decodeEntities(stripHtml(match[1]));
+}
+
+export function extractLinkHref(xml: string) {
+  const linkMatch =
+    /<link[^>]*href=["']([^"']+)["'][^>]*rel=["']alternate["'][^>]*>/i.exec(xml) ||
+    /<link[^>]*href=["']([^"']+)["'][^>]*>/i.exec(xml);
+  return linkMatch ? linkMatch[1] : '';
+}
+
+export function truncate(value: string, max = 400) {
+  const clean = sanitizeWhitespace(value);
+  if (clean.length <= max) return clean;
+  return `${clean.slice(0, max - 1)}…`;
+}
+
+export function uniqueStrings(values: string[], limit: number) {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const value of values) {
+    const trimmed = value.trim();
+    if (!trimmed) continue;
+    const lower = trimmed.toLowerCase();
+    if (seen.has(lower)) continue;
+    seen.add(lower);
+    result.push(trimmed);
+    if (result.length >= limit) break;
+  }
+  return result;
+}
+
+/**
+ * Lowercased search terms for matching a query against text that has no search API.
+ * Inner dots and dashes stay (`node.js`, `state-space`); trailing sentence dots and
+ * dangling dashes do not, so "models." matches "models".
+ */
+export function queryTerms(query: string) {
+  return query
+    .toLowerCase()
+    .split(/[^a-z0-9+#.-]+/)
+    .map(term => term.replace(/^[.-]+|[.-]+$/g, ''))
+    .filter(term => term.length > 2);
+}
+
+/** Crude plural folding so "transformers" matches "transformer". */
+export function stemTerm(term: string) {
+  return term.length > 4 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term;
+}
+
+/** `M:SS` or `H:MM:SS`. */
+export function formatDuration(seconds: number) {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(Math.floor(seconds % 60)).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+}
+
+export function today() {
+  return new Date().toISOString().slice(0, 10);
+}
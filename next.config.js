@@ -14,6 +14,11 @@ const nextConfig = {
         protocol: 'https',
         hostname: 'example.com',
       },
+      {
+        // Data API thumbnails come from i.ytimg.com, channel feed ones from i1–i4.ytimg.com.
+        protocol: 'https',
+        hostname: '**.ytimg.com',
+      },
     ],
   },
 };
@@ -44,11 +44,97 @@ export interface ProfileCardData {
   }>;
   sourceFocus?: Record<string, number>;
   preferenceNotes?: string;
+  /** Set when the reader edits the card; its weights already reflect feedback given before then. */
+  editedAt?: string;
+  /** Reader-pinned queries, planned ahead of generated ones for their slot on every run. */
+  pinnedQueries?: SourceQueryPlan;
+  /** Lens the profile prompts were run with; cards from before lenses existed used the psychological one. */
+  lens?: ProfileLens;
+  /** Prompt version labels (e.g. `profile.card@professional.v1`) keyed by prompt id. */
+  promptVersions?: PromptVersions;
 }
 
-export type FeedSource = 'arxiv' | 'hn' | 'github' | 'news' | 'x';
+/** How the profile stage reads a person: `psychological` infers motives and traits, the others stick to their work. */
+export type ProfileLens = 'psychological' | 'professional' | 'research';
 
-export interface FeedItem {
+export type PromptVersions = Record<string, string>;
+
+export type FeedSource = 'arxiv' | 'scholar' | 'hn' | 'reddit' | 'lobsters' | 'github' | 'hf' | 'video' | 'podcast' | 'news' | 'x' | 'bluesky' | 'mastodon' | 'rss';
+
+/** Plan keys: a source planned on its own, or a slot shared by interchangeable providers. */
+export type QuerySlot = FeedSource | 'social';
+
+export type SourceQueryPlan = Partial<Record<QuerySlot, string[]>>;
+
+/**
+ * How a run's query plan was made: by the LLM, from profile keywords, edited by the reader,
+ * or from the searches the orchestrator chose to run.
+ */
+export type PlanMode = 'llm' | 'fallback' | 'edited' | 'agent';
+
+export interface ItemEngagement {
+  points?: number;
+  comments?: number;
+  stars?: number;
+  /** Average stars per week since creation. */
+  starVelocity?: number;
+  citations?: number;
+  influentialCitations?: number;
+  /** Hugging Face likes (models, datasets) or upvotes (papers). */
+  likes?: number;
+  downloads?: number;
+  reposts?: number;
+}
+
+/** Optional source-specific details that travel with an item from fetch to feed. */
+export interface ItemMetadata {
+  author?: string;
+  discussionUrl?: string;
+  /** Community the discussion lives in, e.g. `r/MachineLearning` or `lobsters #ai`. */
+  community?: string;
+  engagement?: ItemEngagement;
+  repo?: {
+    language?: string;
+    topics: string[];
+    pushedAt: string;
+  };
+  hub?: {
+    kind: 'model' | 'dataset' | 'paper';
+    /** Pipeline tag for models, e.g. `text-generation`. */
+    task?: string;
+    tags: string[];
+  };
+  social?: {
+    /** `@handle`, including the instance for Mastodon accounts. */
+    handle: string;
+    /** Full ISO timestamp of the post. */
+    postedAt: string;
+  };
+  video?: {
+    channel: string;
+    durationSeconds?: number;
+    thumbnailUrl?: string;
+  };
+  audio?: {
+    show: string;
+    /** Enclosure URL of the episode audio. */
+    url: string;
+    type?: string;
+    durationSeconds?: number;
+  };
+  paper?: {
+    authors: string[];
+    venue?: string;
+    year?: number;
+    arxivId?: string;
+    doi?: string;
+    referenceCount?: number;
+    /** Titles of a few referenced papers. */
+    references?: string[];
+  };
+}
+
+export interface FeedItem extends ItemMetadata {
   id: string;
   source: FeedSource;
   title: string;
@@ -58,13 +144,119 @@ export interface FeedItem {
   date: string;
 }
 
-export interface CandidatePoolItem {
+export interface CandidatePoolItem extends ItemMetadata {
   id: string;
   source: FeedSource;
   title: string;
   snippet: string;
   url: string;
   date: string;
+  /** The planned query that fetched the item, so an edited plan can drop what its removed queries found. */
+  query?: string;
+}
+
+/** Public document harvested for a confirmed identity; the raw material of the profile card. */
+export interface HarvestSnippet {
+  source: string;
+  title: string;
+  snippet: string;
+  url: string;
+}
+
+export type RunStatus = 'running' | 'complete' | 'error';
+
+/** One feed run for a confirmed candidate, with each stage's output as it becomes available. */
+export interface FeedRun {
+  id: string;
+  name: string;
+  candidate: CandidateProfile;
+  /** Saved-profile id for this name and candidate; groups the runs of one profile. */
+  profileId: string;
+  status: RunStatus;
+  createdAt: string;
+  updatedAt: string;
+  snippets?: HarvestSnippet[];
+  profile?: ProfileCardData;
+  plan?: SourceQueryPlan;
+  planMode?: PlanMode;
+  pool?: CandidatePoolItem[];
+  feed?: FeedItem[];
+  exploration?: FeedItem[];
+  /** Versions of the prompts whose replies the run used, for comparing feeds across prompt changes. */
+  promptVersions?: PromptVersions;
+  error?: string;
+}
+
+/** A profile kept after a run so its feed can be refreshed without discovery and harvesting. */
+export interface SavedProfile {
+  id: string;
+  name: string;
+  candidate: CandidateProfile;
+  profile: ProfileCardData;
+  savedAt: string;
+  updatedAt: string;
+  lastRunId?: string;
+}
+
+export type FeedbackAction = 'like' | 'dismiss' | 'less';
+
+/** A reader's reaction to a feed item, kept per saved profile (latest action per URL). */
+export interface ItemFeedback {
+  profileId: string;
+  itemId: string;
+  url: string;
+  title: string;
+  summary: string;
+  source: FeedSource;
+  action: FeedbackAction;
+  createdAt: string;
+}
+
+export interface WeightChange {
+  key: string;
+  previous?: number;
+  current?: number;
+  delta: number;
+}
+
+/** One completed run in a profile's history, compared with the run before it. */
+export interface FeedHistoryEntry {
+  runId: string;
+  createdAt: string;
+  items: Array<FeedItem & { status: 'new' | 'repeat' }>;
+  /** Items of the previous run that are not in this one. */
+  dropped: FeedItem[];
+  keywordChanges: WeightChange[];
+  sourceFocusChanges: WeightChange[];
+  /** Prompts both runs used whose version (or lens) differs. */
+  promptChanges: PromptChange[];
+}
+
+export interface PromptChange {
+  id: string;
+  previous: string;
+  current: string;
+}
+
+export interface FeedSubscription {
+  id: string;
+  url: string;
+  title: string;
+  addedAt: string;
+  lastFetchedAt?: string;
+  lastStatus?: 'ok' | 'not-modified' | 'error';
+  lastError?: string;
+  entryCount?: number;
+}
+
+export type CommunityPlatform = Extract<FeedSource, 'reddit' | 'lobsters'>;
+
+export interface CommunityPin {
+  id: string;
+  platform: CommunityPlatform;
+  /** Subreddit name without the `r/` prefix, or a Lobsters tag. */
+  name: string;
+  addedAt: string;
 }
 
 export interface DeepenDigest {
@@ -73,6 +265,11 @@ export interface DeepenDigest {
   next_actions: string[];
 }
 
+/** What a run is allowed to spend; wall-clock time is in milliseconds. */
+export type BudgetResource = 'llmCalls' | 'inputTokens' | 'outputTokens' | 'httpRequests' | 'wallClockMs';
+
+export type BudgetUsage = Record<BudgetResource, { used: number; limit: number }>;
+
 export type AgentState =
   | 'DiscoverCandidates'
   | 'AwaitUserConfirm'